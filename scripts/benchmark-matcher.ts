@@ -0,0 +1,96 @@
+/**
+ * Benchmark candidate generation on the bundled CSVs.
+ *
+ *   npm run benchmark -- [thresholds...]
+ *
+ * Runs the matcher with the linear scan (every tender line per item) and with the
+ * inverted token index, then reports throughput and the index's recall against
+ * the linear scan's pairs at each threshold.
+ */
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parseCSVText, ItemMasterRow, GenConsumableRow } from '../src/utils/fileParser';
+import { applyColumnMapping, DEFAULT_COLUMN_MAPPINGS } from '../src/utils/columnMapping';
+import {
+  createMatchContext,
+  createMatchPairs,
+  matchEncodedRange,
+  prepareMatchData,
+  CandidateStrategy,
+  MatchPairs,
+} from '../src/utils/matchEngine';
+
+const PUBLIC_DIR = path.join(__dirname, '..', 'public');
+const ITEM_MASTER_FILE = 'Item Master - List of MFG & Trading Items.csv';
+const TENDER_FILE = 'NPT0001-24-GEN-CONSUMABLES-NURSING-AND-WOUND-CARE-TENDER-ITEMS-LIST.csv';
+const DEFAULT_THRESHOLDS = [50, 70, 90];
+
+interface RunStats {
+  strategy: CandidateStrategy;
+  seconds: number;
+  pairs: MatchPairs;
+}
+
+const pairKeys = (pairs: MatchPairs, minScore: number): Set<string> => {
+  const keys = new Set<string>();
+  pairs.scores.forEach((score, idx) => {
+    if (score >= minScore) keys.add(`${pairs.itemIndices[idx]}:${pairs.genIndices[idx]}`);
+  });
+  return keys;
+};
+
+const main = async () => {
+  const thresholds = process.argv.slice(2).map(Number).filter(n => !Number.isNaN(n));
+  const minThresholds = thresholds.length > 0 ? thresholds : DEFAULT_THRESHOLDS;
+
+  // Keep the parser's per-file logging out of the report
+  const log = console.log;
+  console.log = () => {};
+  const [itemResult, genResult] = await Promise.all([
+    parseCSVText<ItemMasterRow>(readFileSync(path.join(PUBLIC_DIR, ITEM_MASTER_FILE), 'utf8'), ITEM_MASTER_FILE),
+    parseCSVText<GenConsumableRow>(readFileSync(path.join(PUBLIC_DIR, TENDER_FILE), 'utf8'), TENDER_FILE),
+  ]);
+  console.log = log;
+
+  const itemData = applyColumnMapping(itemResult.rows, DEFAULT_COLUMN_MAPPINGS.itemMaster);
+  const genData = applyColumnMapping(genResult.rows, DEFAULT_COLUMN_MAPPINGS.genConsumable);
+  const { items, consumables } = prepareMatchData(itemData, genData);
+  const itemCount = items.normalized.length;
+
+  console.log(`Item Master: ${itemCount} items, tender: ${consumables.normalized.length} lines\n`);
+
+  for (const minThreshold of minThresholds) {
+    const runs: RunStats[] = (['linearScan', 'invertedIndex'] as CandidateStrategy[]).map(strategy => {
+      const started = performance.now();
+      const context = createMatchContext(consumables, strategy);
+      const pairs = createMatchPairs();
+      matchEncodedRange(items, consumables, 0, itemCount, minThreshold, pairs, context);
+      return { strategy, seconds: (performance.now() - started) / 1000, pairs };
+    });
+
+    const [linear, indexed] = runs;
+    console.log(`Threshold ${minThreshold}%`);
+    runs.forEach(run => {
+      console.log(
+        `  ${run.strategy.padEnd(14)} ${run.seconds.toFixed(2).padStart(7)}s  ` +
+        `${Math.round(itemCount / run.seconds).toString().padStart(7)} items/s  ` +
+        `${run.pairs.scores.length.toString().padStart(7)} pairs`
+      );
+    });
+
+    [minThreshold, 70, 90].filter((score, idx, all) => score >= minThreshold && all.indexOf(score) === idx).forEach(score => {
+      const expected = pairKeys(linear.pairs, score);
+      const found = pairKeys(indexed.pairs, score);
+      let recalled = 0;
+      expected.forEach(key => { if (found.has(key)) recalled++; });
+      const recall = expected.size > 0 ? (recalled / expected.size) * 100 : 100;
+      console.log(`  recall of pairs >= ${score}%: ${recall.toFixed(2)}% (${recalled}/${expected.size})`);
+    });
+    console.log(`  speedup: ${(linear.seconds / indexed.seconds).toFixed(1)}x\n`);
+  }
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
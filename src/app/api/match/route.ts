@@ -0,0 +1,122 @@
+import { NextResponse } from 'next/server';
+import { isMatchAborted, MatchCoverage, matchDescriptionsInline, MatchResult } from '@/utils/matcher';
+import { getCandidatePlan } from '@/utils/matchEngine';
+import { buildMatchExportSheets, buildWorkbook } from '@/utils/matchExport';
+import { MatchRequest, MatchRequestError, readMatchRequest } from '@/utils/matchRequest';
+import { SCORERS } from '@/utils/scorers';
+import { ATTRIBUTE_MODES } from '@/utils/medicalAttributes';
+
+// Matching is CPU-bound and needs the Node.js runtime; every request is a fresh run
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const countNonZero = (counts: number[]): number => counts.reduce((sum, count) => sum + (count > 0 ? 1 : 0), 0);
+
+const toWorkbookResponse = ({ options, itemMaster, genConsumable }: MatchRequest, results: MatchResult[]) => {
+  const sheets = buildMatchExportSheets({
+    matches: results,
+    tenderLines: genConsumable.records,
+    itemRecords: itemMaster.records,
+    settings: [
+      ['Exported At', new Date().toISOString()],
+      ['Minimum Threshold %', options.minThreshold],
+      ['Scorer', SCORERS[options.scorer].label],
+      ['Attribute Check', ATTRIBUTE_MODES.find(mode => mode.id === options.attributeMode)?.label ?? options.attributeMode],
+      ['Tender Line Assignment', options.assignmentCapacity > 0 ? `Up to ${options.assignmentCapacity} per line` : 'Off'],
+      ['Synonym Terms', options.synonyms.length],
+      ['Item Master File', itemMaster.fileName],
+      ['Tender File', genConsumable.fileName],
+      ['Item Master Rows', itemMaster.records.length],
+      ['Tender Lines', genConsumable.records.length],
+      ['Exported Matches', results.length],
+    ],
+    getReview: () => undefined,
+    getProbability: () => null,
+  });
+  return new NextResponse(buildWorkbook(sheets), {
+    headers: {
+      'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Disposition': `attachment; filename="match-results-${new Date().toISOString().split('T')[0]}.xlsx"`,
+    },
+  });
+};
+
+/**
+ * POST /api/match: match an Item Master against a tender without the dashboard.
+ * See readMatchRequest for the accepted bodies; answers with MatchResult JSON or an XLSX workbook.
+ */
+export async function POST(request: Request) {
+  let matchRequest: MatchRequest;
+  try {
+    matchRequest = await readMatchRequest(request);
+  } catch (error) {
+    if (error instanceof MatchRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error reading match request:', error);
+    return NextResponse.json({ error: 'The request could not be read' }, { status: 400 });
+  }
+
+  const { options, itemMaster, genConsumable } = matchRequest;
+  // readMatchRequest only accepts thresholds the plan can serve in full
+  const { candidateStrategy } = getCandidatePlan(itemMaster.records.length, genConsumable.records.length, options.minThreshold);
+  let coverage: MatchCoverage | null = null;
+  try {
+    const results = await matchDescriptionsInline(
+      itemMaster.records,
+      genConsumable.records,
+      options.minThreshold,
+      options.maxResults,
+      undefined,
+      {
+        candidateStrategy,
+        scorer: options.scorer,
+        attributeMode: options.attributeMode,
+        synonyms: options.synonyms,
+        assignmentCapacity: options.assignmentCapacity,
+        onCoverage: result => { coverage = result; },
+        signal: request.signal, // stop when the client disconnects
+      }
+    );
+
+    if (options.format === 'xlsx') return toWorkbookResponse(matchRequest, results);
+
+    const runCoverage = coverage as MatchCoverage | null;
+    return NextResponse.json({
+      settings: {
+        minThreshold: options.minThreshold,
+        maxResults: options.maxResults,
+        scorer: options.scorer,
+        attributeMode: options.attributeMode,
+        assignmentCapacity: options.assignmentCapacity,
+        synonymCount: options.synonyms.length,
+      },
+      itemMaster: {
+        fileName: itemMaster.fileName,
+        rowCount: itemMaster.records.length,
+        mapping: itemMaster.mapping,
+        warningCount: itemMaster.warningCount,
+        warnings: itemMaster.warnings,
+      },
+      genConsumable: {
+        fileName: genConsumable.fileName,
+        rowCount: genConsumable.records.length,
+        mapping: genConsumable.mapping,
+        warningCount: genConsumable.warningCount,
+        warnings: genConsumable.warnings,
+      },
+      coverage: runCoverage && {
+        tenderLinesWithCandidates: countNonZero(runCoverage.genCandidateCounts),
+        itemsWithCandidates: countNonZero(runCoverage.itemCandidateCounts),
+        partial: runCoverage.partial,
+      },
+      results,
+    });
+  } catch (error) {
+    if (isMatchAborted(error)) {
+      return NextResponse.json({ error: 'The request was cancelled' }, { status: 499 });
+    }
+    console.error('Error matching descriptions:', error);
+    return NextResponse.json({ error: 'Matching failed' }, { status: 500 });
+  }
+}
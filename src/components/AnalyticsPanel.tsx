@@ -0,0 +1,157 @@
+'use client';
+
+import { ReactNode, useMemo } from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { GenConsumableRow } from '@/utils/fileParser';
+import { MatchRecord } from '@/utils/columnMapping';
+import { MatchResult } from '@/utils/matcher';
+import { MatchQuality } from '@/utils/pricing';
+import {
+  buildScoreHistogram,
+  calculateCategoryCoverage,
+  countMatchesBy,
+  SensitivityPoint,
+} from '@/utils/analytics';
+
+interface AnalyticsPanelProps {
+  matches: MatchResult[]; // after the current filters
+  tenderLines: MatchRecord<GenConsumableRow>[];
+  sensitivity: SensitivityPoint[]; // from every candidate, with the same filters
+}
+
+const MAX_GROUPS = 10;
+const CHART_HEIGHT = 260;
+
+const QUALITY_COLORS: Record<MatchQuality, string> = {
+  excellent: '#22c55e',
+  good: '#3b82f6',
+  fair: '#eab308',
+  poor: '#ef4444',
+};
+
+const ITEM_TYPE_COLORS = ['#6366f1', '#f97316', '#14b8a6', '#a855f7', '#64748b'];
+
+function ChartCard({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <h4 className="text-sm font-semibold text-gray-700 mb-3">{title}</h4>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Charts over the filtered matches: score histogram, tender coverage by category,
+ * matches by business unit, manufacturer and item type, and threshold sensitivity
+ */
+export default function AnalyticsPanel({ matches, tenderLines, sensitivity }: AnalyticsPanelProps) {
+  const charts = useMemo(() => ({
+    histogram: buildScoreHistogram(matches),
+    categoryCoverage: calculateCategoryCoverage(matches, tenderLines).slice(0, MAX_GROUPS),
+    businessUnits: countMatchesBy(matches, m => m.itemMasterRecord.category, MAX_GROUPS),
+    manufacturers: countMatchesBy(matches, m => m.itemMasterRecord.manufacturer, MAX_GROUPS),
+    itemTypes: countMatchesBy(matches, m => m.itemMasterRecord.itemType, ITEM_TYPE_COLORS.length),
+  }), [matches, tenderLines]);
+
+  if (matches.length === 0) {
+    return <p className="text-sm text-gray-500">No matches for the current filters.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <ChartCard title="Score Histogram">
+        <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+          <BarChart data={charts.histogram}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+            <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+            <Tooltip formatter={(value) => [value, 'Matches']} labelFormatter={(label) => `${label}%`} />
+            <Bar dataKey="count">
+              {charts.histogram.map(bin => <Cell key={bin.from} fill={QUALITY_COLORS[bin.quality]} />)}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </ChartCard>
+
+      <ChartCard title="Threshold Sensitivity">
+        <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+          <LineChart data={sensitivity}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="threshold" unit="%" tick={{ fontSize: 11 }} />
+            <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+            <Tooltip labelFormatter={(label) => `Threshold ${label}%`} />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <Line type="monotone" dataKey="matches" name="Matches" stroke="#3b82f6" dot={false} />
+            <Line type="monotone" dataKey="linesCovered" name="Tender lines covered" stroke="#22c55e" dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </ChartCard>
+
+      <ChartCard title="Tender Coverage by Group Category">
+        <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+          <BarChart data={charts.categoryCoverage} layout="vertical" margin={{ left: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+            <XAxis type="number" allowDecimals={false} tick={{ fontSize: 11 }} />
+            <YAxis type="category" dataKey="category" width={120} tick={{ fontSize: 11 }} />
+            <Tooltip />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <Bar dataKey="covered" name="Covered" stackId="lines" fill="#22c55e" />
+            <Bar dataKey="notCovered" name="Not covered" stackId="lines" fill="#ef4444" />
+          </BarChart>
+        </ResponsiveContainer>
+      </ChartCard>
+
+      <ChartCard title="MFG vs TRD">
+        <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+          <PieChart>
+            <Pie data={charts.itemTypes} dataKey="count" nameKey="name" outerRadius={90} label>
+              {charts.itemTypes.map((group, idx) => (
+                <Cell key={group.name} fill={ITEM_TYPE_COLORS[idx % ITEM_TYPE_COLORS.length]} />
+              ))}
+            </Pie>
+            <Tooltip />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+          </PieChart>
+        </ResponsiveContainer>
+      </ChartCard>
+
+      <ChartCard title="Matches by Business Unit">
+        <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+          <BarChart data={charts.businessUnits} layout="vertical" margin={{ left: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+            <XAxis type="number" allowDecimals={false} tick={{ fontSize: 11 }} />
+            <YAxis type="category" dataKey="name" width={140} tick={{ fontSize: 11 }} />
+            <Tooltip formatter={(value) => [value, 'Matches']} />
+            <Bar dataKey="count" fill="#6366f1" />
+          </BarChart>
+        </ResponsiveContainer>
+      </ChartCard>
+
+      <ChartCard title="Matches by Manufacturer">
+        <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+          <BarChart data={charts.manufacturers} layout="vertical" margin={{ left: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+            <XAxis type="number" allowDecimals={false} tick={{ fontSize: 11 }} />
+            <YAxis type="category" dataKey="name" width={140} tick={{ fontSize: 11 }} />
+            <Tooltip formatter={(value) => [value, 'Matches']} />
+            <Bar dataKey="count" fill="#f97316" />
+          </BarChart>
+        </ResponsiveContainer>
+      </ChartCard>
+    </div>
+  );
+}
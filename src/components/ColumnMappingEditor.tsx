@@ -0,0 +1,47 @@
+'use client';
+
+import { ColumnMapping, getMappedFields, MappedField, MappingSide } from '@/utils/columnMapping';
+
+interface ColumnMappingEditorProps {
+  side: MappingSide;
+  headers: string[];
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+}
+
+export default function ColumnMappingEditor({ side, headers, mapping, onChange }: ColumnMappingEditorProps) {
+  const handleFieldChange = (field: MappedField, column: string) => {
+    onChange({ ...mapping, [field]: column });
+  };
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+      <p className="text-sm font-semibold text-gray-800 mb-3">🧭 Column Mapping</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {getMappedFields(side).map(({ key, label, required }) => (
+          <div key={key}>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              {label}
+              {required && <span className="text-red-500 ml-0.5">*</span>}
+            </label>
+            <select
+              value={mapping[key] ?? ''}
+              onChange={(e) => handleFieldChange(key, e.target.value)}
+              className={`w-full px-3 py-1.5 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                required && !mapping[key] ? 'border-red-300' : 'border-gray-300'
+              }`}
+            >
+              <option value="">— Not mapped —</option>
+              {headers.map(header => (
+                <option key={header} value={header}>{header}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-3">
+        Mappings are remembered for files with the same set of columns.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ItemMasterRow, GenConsumableRow } from '@/utils/fileParser';
+import { MatchRecord } from '@/utils/columnMapping';
+import { MatchCoverage, MatchResult } from '@/utils/matcher';
+import { downloadCsv } from '@/utils/matchExport';
+
+interface CoverageViewProps {
+  matches: MatchResult[];
+  coverage: MatchCoverage;
+  tenderLines: MatchRecord<GenConsumableRow>[];
+  itemRecords: MatchRecord<ItemMasterRow>[];
+  threshold: number;
+}
+
+interface TenderLineCoverage {
+  code: string;
+  description: string;
+  quantity: string | number;
+  uom: string;
+  candidateCount: number;
+  bestScore: number;
+  bestMatches: MatchResult[];
+}
+
+type CoverageFilter = 'all' | 'covered' | 'notCovered';
+
+const BEST_MATCHES_PER_LINE = 3;
+const MAX_LISTED_ROWS = 200;
+
+/**
+ * Tender-centric view: which NUPCO lines have a plausible product from us, and which
+ * of our products never matched any line
+ */
+export default function CoverageView({ matches, coverage, tenderLines, itemRecords, threshold }: CoverageViewProps) {
+  const [filter, setFilter] = useState<CoverageFilter>('all');
+
+  const lines = useMemo(() => {
+    const matchesByCode = new Map<string, MatchResult[]>();
+    matches.forEach(match => {
+      const code = match.genConsumableRecord.code;
+      const grouped = matchesByCode.get(code);
+      if (grouped) grouped.push(match);
+      else matchesByCode.set(code, [match]);
+    });
+
+    // Lines sharing a NUPCO code are reported once
+    const byCode = new Map<string, TenderLineCoverage>();
+    tenderLines.forEach((line, idx) => {
+      const existing = byCode.get(line.code);
+      if (existing) {
+        existing.candidateCount += coverage.genCandidateCounts[idx];
+        existing.bestScore = Math.max(existing.bestScore, coverage.genBestScores[idx]);
+        return;
+      }
+      byCode.set(line.code, {
+        code: line.code,
+        description: line.description,
+        quantity: line.quantity,
+        uom: line.uom,
+        candidateCount: coverage.genCandidateCounts[idx],
+        bestScore: coverage.genBestScores[idx],
+        bestMatches: (matchesByCode.get(line.code) ?? [])
+          .sort((a, b) => b.matchPercentage - a.matchPercentage)
+          .slice(0, BEST_MATCHES_PER_LINE),
+      });
+    });
+    return Array.from(byCode.values());
+  }, [matches, coverage, tenderLines]);
+
+  const notCovered = useMemo(() => lines.filter(line => line.candidateCount === 0), [lines]);
+  const unmatchedItems = useMemo(
+    () => itemRecords.filter((item, idx) => item.description && coverage.itemCandidateCounts[idx] === 0),
+    [itemRecords, coverage]
+  );
+
+  const visibleLines = lines.filter(line => {
+    if (filter === 'covered') return line.candidateCount > 0;
+    if (filter === 'notCovered') return line.candidateCount === 0;
+    return true;
+  });
+
+  const exportNotCovered = () => {
+    downloadCsv(
+      'tender-lines-not-covered',
+      ['NUPCO Code', 'Description', 'Quantity', 'UOM'],
+      notCovered.map(line => [line.code, line.description, line.quantity, line.uom])
+    );
+  };
+
+  const exportUnmatchedItems = () => {
+    downloadCsv(
+      'item-master-never-matched',
+      ['Item Code', 'Description', 'UOM', 'Category'],
+      unmatchedItems.map(item => [item.code, item.description, item.uom, item.category])
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white rounded-lg shadow-md p-6 border-l-4 border-green-500">
+          <p className="text-sm font-medium text-gray-600">Tender Lines Covered</p>
+          <p className="text-3xl font-bold text-gray-900 mt-2">
+            {(lines.length - notCovered.length).toLocaleString()}
+            <span className="text-base font-medium text-gray-500"> / {lines.length.toLocaleString()}</span>
+          </p>
+          <p className="text-xs text-gray-500 mt-1">At least one candidate at {threshold}% or more</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-6 border-l-4 border-red-500">
+          <p className="text-sm font-medium text-gray-600">Not Covered</p>
+          <p className="text-3xl font-bold text-gray-900 mt-2">{notCovered.length.toLocaleString()}</p>
+          <button onClick={exportNotCovered} className="text-xs text-blue-600 hover:text-blue-800 mt-1">
+            📥 Export list
+          </button>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-6 border-l-4 border-gray-400">
+          <p className="text-sm font-medium text-gray-600">Item Master Never Matched</p>
+          <p className="text-3xl font-bold text-gray-900 mt-2">{unmatchedItems.length.toLocaleString()}</p>
+          <button onClick={exportUnmatchedItems} className="text-xs text-blue-600 hover:text-blue-800 mt-1">
+            📥 Export list
+          </button>
+        </div>
+      </div>
+
+      {/* Per-tender-line table */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex justify-between items-center mb-4 flex-wrap gap-4">
+          <h2 className="text-2xl font-semibold text-gray-800 flex items-center gap-2">
+            <span>🧾</span> Tender Line Coverage
+          </h2>
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as CoverageFilter)}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="all">All lines ({lines.length})</option>
+            <option value="covered">Covered ({lines.length - notCovered.length})</option>
+            <option value="notCovered">Not covered ({notCovered.length})</option>
+          </select>
+        </div>
+
+        <div className="overflow-x-auto max-h-[32rem] overflow-y-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr className="text-left text-gray-700">
+                <th className="px-4 py-2 font-semibold">NUPCO Code</th>
+                <th className="px-4 py-2 font-semibold">Tender Description</th>
+                <th className="px-4 py-2 font-semibold">Qty</th>
+                <th className="px-4 py-2 font-semibold text-right">Candidates</th>
+                <th className="px-4 py-2 font-semibold">Best Candidates</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {visibleLines.slice(0, MAX_LISTED_ROWS).map(line => (
+                <tr key={line.code} className={`align-top ${line.candidateCount === 0 ? 'bg-red-50' : 'hover:bg-gray-50'}`}>
+                  <td className="px-4 py-2 font-mono text-xs text-gray-900">{line.code}</td>
+                  <td className="px-4 py-2 text-gray-900 max-w-md">{line.description}</td>
+                  <td className="px-4 py-2 text-gray-700 whitespace-nowrap">{line.quantity} {line.uom}</td>
+                  <td className="px-4 py-2 text-right font-semibold text-gray-900">{line.candidateCount}</td>
+                  <td className="px-4 py-2 space-y-1">
+                    {line.candidateCount === 0 && (
+                      <span className="text-red-700 text-xs font-semibold">Not covered</span>
+                    )}
+                    {line.bestMatches.map((match, rank) => (
+                      <div key={rank}>
+                        <span className="font-semibold text-gray-900">{match.matchPercentage}%</span>
+                        <span className="ml-2 font-mono text-xs text-blue-800">{match.itemMasterRecord.code}</span>
+                        <span className="ml-2 text-gray-700">{match.itemMasterDescription}</span>
+                      </div>
+                    ))}
+                    {line.candidateCount > 0 && line.bestMatches.length === 0 && (
+                      <span className="text-gray-500 text-xs italic">
+                        Best {line.bestScore}% (outside the top results)
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {visibleLines.length > MAX_LISTED_ROWS && (
+          <p className="text-xs text-gray-500 mt-2">
+            Showing first {MAX_LISTED_ROWS} of {visibleLines.length} lines
+          </p>
+        )}
+      </div>
+
+      {/* Reverse report */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-2xl font-semibold text-gray-800 flex items-center gap-2 mb-4">
+          <span>📦</span> Item Master Products Never Matched ({unmatchedItems.length.toLocaleString()})
+        </h2>
+        <div className="overflow-x-auto max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr className="text-left text-gray-700">
+                <th className="px-4 py-2 font-semibold">Item Code</th>
+                <th className="px-4 py-2 font-semibold">Description</th>
+                <th className="px-4 py-2 font-semibold">Category</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {unmatchedItems.slice(0, MAX_LISTED_ROWS).map((item, idx) => (
+                <tr key={idx} className="hover:bg-gray-50">
+                  <td className="px-4 py-2 font-mono text-xs text-gray-900">{item.code}</td>
+                  <td className="px-4 py-2 text-gray-900">{item.description}</td>
+                  <td className="px-4 py-2 text-gray-700">{item.category}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {unmatchedItems.length > MAX_LISTED_ROWS && (
+          <p className="text-xs text-gray-500 mt-2">
+            Showing first {MAX_LISTED_ROWS} of {unmatchedItems.length} products; export the list to see all
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
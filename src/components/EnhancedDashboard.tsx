@@ -1,184 +1,636 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
-import { loadCSVFromPath, ItemMasterRow, GenConsumableRow } from '@/utils/fileParser';
-import { matchDescriptionsAsync, MatchResult } from '@/utils/matcher';
+import { useState, useMemo, useRef, useEffect, useDeferredValue, useCallback } from 'react';
+import { ItemMasterRow, GenConsumableRow } from '@/utils/fileParser';
+import {
+  buildManualMatchResult,
+  getCheckpointProgress,
+  isMatchAborted,
+  matchDescriptionsAsync,
+  restoreMatchCandidates,
+  selectMatchCoverage,
+  selectMatchResults,
+  selectMatchSummaries,
+  MatchCandidates,
+  MatchCheckpoint,
+  MatchResult,
+  MatchSettings,
+  MatchSummary,
+} from '@/utils/matcher';
+import { getCandidatePlan } from '@/utils/matchEngine';
+import { MatchRecord } from '@/utils/columnMapping';
+import { DEFAULT_SCORER, ScorerId, SCORERS } from '@/utils/scorers';
+import { AttributeMode, ATTRIBUTE_CONFLICT_PENALTY, ATTRIBUTE_MODES } from '@/utils/medicalAttributes';
+import { loadSynonyms, saveSynonyms, SynonymEntry } from '@/utils/synonyms';
+import { loadPriceList, savePriceList, PriceList } from '@/utils/pricing';
+import {
+  buildBidTemplateSheet,
+  buildMatchesSheet,
+  buildMatchExportSheets,
+  downloadCsv,
+  downloadWorkbook,
+  BidOffer,
+  MatchExportData,
+} from '@/utils/matchExport';
+import {
+  createSessionId,
+  deleteSession,
+  getSessionRecords,
+  listSessions,
+  loadSession,
+  saveSession,
+  selectSessionReviews,
+  serializeSession,
+  DashboardView,
+  MatchSession,
+  MatchSessionSummary,
+  QualityFilter,
+  ReviewFilter,
+} from '@/utils/sessionStore';
+import FileUploadPanel, { MatchInputFiles } from '@/components/FileUploadPanel';
+import SynonymDictionaryEditor from '@/components/SynonymDictionaryEditor';
+import TenderProposalTable from '@/components/TenderProposalTable';
+import CoverageView from '@/components/CoverageView';
+import AnalyticsPanel from '@/components/AnalyticsPanel';
+import { calculateThresholdSensitivity } from '@/utils/analytics';
+import MatchResultsGrid from '@/components/MatchResultsGrid';
+import MatchDetails from '@/components/MatchDetails';
+import RevenueEstimateView from '@/components/RevenueEstimateView';
+import RerankerPanel from '@/components/RerankerPanel';
+import SessionManager from '@/components/SessionManager';
+import FacetFilterPanel from '@/components/FacetFilterPanel';
+import { compileSearchQuery, QuerySyntaxError, SEARCH_FIELDS } from '@/utils/searchQuery';
+import { countFacetValues, describeFacetSelection, FacetSelection, filterByFacets, hasFacetSelection } from '@/utils/facets';
+import {
+  deleteReviewDecision,
+  getReviewKey,
+  getTenderLineKey,
+  loadReviewDecisions,
+  saveReviewDecision,
+  saveReviewDecisions,
+  ReviewDecision,
+  REVIEW_STATUSES,
+} from '@/utils/reviewStore';
+import {
+  canTrainReranker,
+  LabeledMatch,
+  loadRerankerModel,
+  predictMatchProbability,
+  RerankerModel,
+  saveRerankerModel,
+  trainReranker,
+} from '@/utils/reranker';
+
+const ASSIGNMENT_CAPACITIES = [1, 2, 3];
+
+const getMatchReviewKey = (match: MatchSummary): string => {
+  const line = match.genConsumableRecord;
+  return getReviewKey(line.code, match.itemMasterRecord.code, line.lineNumber);
+};
+
+// Decisions made before lines were told apart by SN cover every line with the code
+const getLegacyReviewKey = (match: MatchSummary): string => {
+  return getReviewKey(match.genConsumableRecord.code, match.itemMasterRecord.code);
+};
+
+const findReview = (decisions: Map<string, ReviewDecision>, match: MatchSummary): ReviewDecision | undefined => {
+  return decisions.get(getMatchReviewKey(match)) ?? decisions.get(getLegacyReviewKey(match));
+};
+
+// Updates the decision that applies to the pair, or starts one for this tender line
+const reviseDecision = (
+  existing: ReviewDecision | undefined,
+  line: MatchRecord<GenConsumableRow>,
+  itemMasterCode: string,
+  changes: Partial<Pick<ReviewDecision, 'status' | 'note' | 'manual'>>
+): ReviewDecision => {
+  if (existing) return { ...existing, ...changes, updatedAt: Date.now() };
+  return {
+    id: getReviewKey(line.code, itemMasterCode, line.lineNumber),
+    genConsumableCode: line.code,
+    genConsumableLine: line.lineNumber || undefined,
+    itemMasterCode,
+    status: null,
+    note: '',
+    manual: false,
+    ...changes,
+    updatedAt: Date.now(),
+  };
+};
+
+// Tender lines by code and by code + SN, for resolving decisions of either kind
+const indexTenderLines = (lines: MatchRecord<GenConsumableRow>[]) => {
+  return new Map(lines.flatMap(line => [
+    [line.code, line] as const,
+    [getTenderLineKey(line.code, line.lineNumber), line] as const,
+  ]));
+};
 
 export default function EnhancedDashboard() {
-  const [itemMasterData, setItemMasterData] = useState<ItemMasterRow[]>([]);
-  const [genConsumableData, setGenConsumableData] = useState<GenConsumableRow[]>([]);
-  const [matches, setMatches] = useState<MatchResult[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [itemMasterData, setItemMasterData] = useState<MatchRecord<ItemMasterRow>[]>([]);
+  const [genConsumableData, setGenConsumableData] = useState<MatchRecord<GenConsumableRow>[]>([]);
+  const [candidates, setCandidates] = useState<MatchCandidates | null>(null);
+  // Settings and input files of the run that produced the candidates, as saved with a session
+  const [runSettings, setRunSettings] = useState<MatchSettings | null>(null);
+  const [inputFiles, setInputFiles] = useState<MatchInputFiles | null>(null);
+  const [sessions, setSessions] = useState<MatchSessionSummary[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
   const [processing, setProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [matchesFound, setMatchesFound] = useState(0);
   const [minThreshold, setMinThreshold] = useState<number>(70);
+  const [scorer, setScorer] = useState<ScorerId>(DEFAULT_SCORER);
+  const [attributeMode, setAttributeMode] = useState<AttributeMode>('off');
+  const [synonyms, setSynonyms] = useState<SynonymEntry[]>([]);
+  const [assignmentCapacity, setAssignmentCapacity] = useState(0);
+  const [view, setView] = useState<DashboardView>('matches');
+  const [reviewDecisions, setReviewDecisions] = useState<Map<string, ReviewDecision>>(new Map());
+  const [reviewFilter, setReviewFilter] = useState<ReviewFilter>('active');
+  const [rerankerModel, setRerankerModel] = useState<RerankerModel | null>(null);
+  const [rerankEnabled, setRerankEnabled] = useState(true);
+  const [prices, setPrices] = useState<PriceList>({});
   const [error, setError] = useState<string>('');
   const [startTime, setStartTime] = useState<number>(0);
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterQuality, setFilterQuality] = useState<'all' | 'excellent' | 'good' | 'fair' | 'poor'>('all');
+  const [filterQuality, setFilterQuality] = useState<QualityFilter>('all');
+  const [facetSelection, setFacetSelection] = useState<FacetSelection>({});
   const [showStats, setShowStats] = useState(false);
+  const [pausedRun, setPausedRun] = useState<{ checkpoint: MatchCheckpoint } | null>(null);
 
-  // Load files automatically on mount
+  // Only the latest run may commit results; older runs are aborted and ignored
+  const runIdRef = useRef(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // localStorage and IndexedDB are only available after mount
+  useEffect(() => setSynonyms(loadSynonyms()), []);
+  useEffect(() => setRerankerModel(loadRerankerModel()), []);
+  useEffect(() => setPrices(loadPriceList()), []);
   useEffect(() => {
-    const loadFiles = async () => {
-      setLoading(true);
-      setProgress(0);
-      try {
-        const [itemData, genData] = await Promise.all([
-          loadCSVFromPath<ItemMasterRow>('/Item Master - List of MFG & Trading Items.csv'),
-          loadCSVFromPath<GenConsumableRow>('/NPT0001-24-GEN-CONSUMABLES-NURSING-AND-WOUND-CARE-TENDER-ITEMS-LIST.csv')
-        ]);
-        
-        console.log('Item Master data loaded:', itemData.length, 'rows');
-        console.log('First Item Master row:', itemData[0]);
-        console.log('Gen Consumable data loaded:', genData.length, 'rows');
-        console.log('First Gen Consumable row:', genData[0]);
-        
-        setItemMasterData(itemData);
-        setGenConsumableData(genData);
-        setLoading(false);
-        
-        // Automatically perform matching with async version
-        setProcessing(true);
-        setStartTime(Date.now());
-        const results = await matchDescriptionsAsync(
-          itemData, 
-          genData, 
-          minThreshold,
-          1000, // Limit to top 1000 matches
-          (prog) => setProgress(prog)
-        );
-        setMatches(results);
-        setProcessing(false);
-        setProgress(100);
-      } catch (err) {
-        console.error('Error loading files:', err);
-        setError('Failed to load CSV files. Please make sure the files are in the public folder.');
-        setLoading(false);
+    listSessions().then(setSessions);
+  }, []);
+  useEffect(() => {
+    loadReviewDecisions().then(decisions => {
+      setReviewDecisions(new Map(decisions.map(decision => [decision.id, decision])));
+    });
+  }, []);
+
+  const updateReviewDecision = (
+    match: MatchResult,
+    changes: Partial<Pick<ReviewDecision, 'status' | 'note' | 'manual'>>
+  ) => {
+    const decision = reviseDecision(
+      findReview(reviewDecisions, match),
+      match.genConsumableRecord,
+      match.itemMasterRecord.code,
+      changes
+    );
+    const next = new Map(reviewDecisions);
+    // A manual link is only undone by rejecting it, so it is kept even without status or note
+    if (!decision.status && !decision.note && !decision.manual) {
+      next.delete(decision.id);
+      deleteReviewDecision(decision.id);
+    } else {
+      next.set(decision.id, decision);
+      saveReviewDecision(decision);
+    }
+    setReviewDecisions(next);
+  };
+
+  // Link the tender line of a match to another product; the original pair is rejected
+  const handleLinkItem = (match: MatchResult, item: MatchRecord<ItemMasterRow>) => {
+    const line = match.genConsumableRecord;
+    if (item.code === match.itemMasterRecord.code) return;
+    // The link is for this line only, even where the code repeats
+    const previous = reviewDecisions.get(getReviewKey(line.code, item.code, line.lineNumber))
+      ?? reviewDecisions.get(getReviewKey(line.code, item.code));
+    const linked = reviseDecision(undefined, line, item.code, { status: 'confirmed', note: previous?.note ?? '', manual: true });
+    const rejected = reviseDecision(findReview(reviewDecisions, match), line, match.itemMasterRecord.code, { status: 'rejected' });
+    saveReviewDecision(linked);
+    saveReviewDecision(rejected);
+    setReviewDecisions(new Map(reviewDecisions).set(linked.id, linked).set(rejected.id, rejected));
+  };
+
+  const handlePricesChange = (next: PriceList) => {
+    setPrices(next);
+    savePriceList(next);
+  };
+
+  const handleSynonymsChange = (entries: SynonymEntry[]) => {
+    setSynonyms(entries);
+    saveSynonyms(entries);
+  };
+
+  // Run the matcher against the currently loaded files
+  const runMatching = async (
+    itemData: MatchRecord<ItemMasterRow>[],
+    genData: MatchRecord<GenConsumableRow>[],
+    settings: MatchSettings,
+    resumeFrom?: MatchCheckpoint
+  ) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const runId = ++runIdRef.current;
+    const isLatestRun = () => runId === runIdRef.current;
+
+    setPausedRun(null);
+    setProcessing(true);
+    setProgress(resumeFrom ? getCheckpointProgress(resumeFrom) : 0);
+    setMatchesFound(resumeFrom ? resumeFrom.pairs.scores.length : 0);
+    setStartTime(Date.now());
+    // Candidates are collected as low as the plan allows; the threshold slider only filters them
+    const { candidateStrategy, candidateThreshold } = getCandidatePlan(itemData.length, genData.length, 0);
+    try {
+      // Results come from the candidates, so the run itself builds none
+      await matchDescriptionsAsync(
+        itemData,
+        genData,
+        candidateThreshold,
+        0,
+        (prog) => isLatestRun() && setProgress(prog),
+        {
+          ...settings,
+          candidateStrategy,
+          onMatchesFound: (count) => isLatestRun() && setMatchesFound(count),
+          onCandidates: (found) => {
+            if (!isLatestRun()) return;
+            setCandidates(found);
+            setRunSettings(settings);
+          },
+          signal: controller.signal,
+          resumeFrom,
+        }
+      );
+      if (!isLatestRun()) return;
+      setProgress(100);
+    } catch (err) {
+      if (!isLatestRun()) return;
+      if (isMatchAborted(err)) {
+        setPausedRun({ checkpoint: err.checkpoint });
+      } else {
+        console.error('Error matching files:', err);
+        setError('Failed to match the uploaded files. Please check that they contain the expected columns.');
+      }
+    } finally {
+      if (isLatestRun()) {
         setProcessing(false);
+        abortControllerRef.current = null;
       }
+    }
+  };
+
+  const handleCancelMatching = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleResumeMatching = () => {
+    if (!pausedRun) return;
+    runMatching(
+      itemMasterData,
+      genConsumableData,
+      {
+        scorer: pausedRun.checkpoint.scorer,
+        attributeMode: pausedRun.checkpoint.attributeMode,
+        synonyms: pausedRun.checkpoint.synonyms,
+        assignmentCapacity: pausedRun.checkpoint.assignmentCapacity,
+      },
+      pausedRun.checkpoint
+    );
+  };
+
+  const handleStartMatching = (
+    itemData: MatchRecord<ItemMasterRow>[],
+    genData: MatchRecord<GenConsumableRow>[],
+    files: MatchInputFiles
+  ) => {
+    console.log('Item Master data loaded:', itemData.length, 'rows');
+    console.log('First Item Master record:', itemData[0]);
+    console.log('Gen Consumable data loaded:', genData.length, 'rows');
+    console.log('First Gen Consumable record:', genData[0]);
+
+    setItemMasterData(itemData);
+    setGenConsumableData(genData);
+    setInputFiles(files);
+    setActiveSessionId(null);
+    runMatching(itemData, genData, { scorer, attributeMode, synonyms, assignmentCapacity });
+  };
+
+  // Go back to the upload panel to match a different pair of files
+  const handleNewFiles = () => {
+    abortControllerRef.current?.abort();
+    runIdRef.current++;
+    setPausedRun(null);
+    setProcessing(false);
+    setItemMasterData([]);
+    setGenConsumableData([]);
+    setCandidates(null);
+    setInputFiles(null);
+    setActiveSessionId(null);
+    setError('');
+    setProgress(0);
+  };
+
+  // Save the current run; saving under the open session's name updates it in place
+  const handleSaveSession = async (name: string) => {
+    if (!candidates || !runSettings || !inputFiles) return;
+    const now = Date.now();
+    const existing = sessions.find(session => session.id === activeSessionId && session.name === name);
+    const session: MatchSession = {
+      id: existing?.id ?? createSessionId(),
+      name,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      itemMaster: { ...inputFiles.itemMaster, rows: itemMasterData.map(record => record.row) },
+      genConsumable: { ...inputFiles.genConsumable, rows: genConsumableData.map(record => record.row) },
+      settings: runSettings,
+      candidateThreshold: candidates.minThreshold,
+      pairs: candidates.pairs,
+      filters: { minThreshold: threshold, searchTerm, filterQuality, reviewFilter, view, facets: facetSelection },
+      reviews: selectSessionReviews(reviewDecisions.values(), genConsumableData),
     };
+    await saveSession(session);
+    console.log(`Saved session "${name}" with ${session.pairs.scores.length} candidate pairs`);
+    setActiveSessionId(session.id);
+    setSessions(await listSessions());
+  };
+
+  // Show a saved run as it was left, without matching again
+  const openSession = (session: MatchSession) => {
+    abortControllerRef.current?.abort();
+    runIdRef.current++;
+    const { itemMasterData: itemData, genConsumableData: genData } = getSessionRecords(session);
+    const { settings, filters } = session;
+
+    setItemMasterData(itemData);
+    setGenConsumableData(genData);
+    setInputFiles({ itemMaster: session.itemMaster, genConsumable: session.genConsumable });
+    setCandidates(restoreMatchCandidates(session.pairs, session.candidateThreshold, itemData, genData, settings));
+    setRunSettings(settings);
+    setScorer(settings.scorer);
+    setAttributeMode(settings.attributeMode);
+    setSynonyms(settings.synonyms);
+    setAssignmentCapacity(settings.assignmentCapacity);
+    setMinThreshold(filters.minThreshold);
+    setSearchTerm(filters.searchTerm);
+    setFilterQuality(filters.filterQuality);
+    setReviewFilter(filters.reviewFilter);
+    setFacetSelection(filters.facets ?? {});
+    setView(filters.view);
+    setActiveSessionId(session.id);
+    setPausedRun(null);
+    setProcessing(false);
+    setError('');
+    setProgress(100);
+
+    // Decisions from the session win only where they are newer, e.g. in a colleague's export
+    const newer = session.reviews.filter(decision => (reviewDecisions.get(decision.id)?.updatedAt ?? -1) < decision.updatedAt);
+    if (newer.length > 0) {
+      saveReviewDecisions(newer);
+      const next = new Map(reviewDecisions);
+      newer.forEach(decision => next.set(decision.id, decision));
+      setReviewDecisions(next);
+    }
+  };
+
+  const handleOpenSession = async (id: string) => {
+    const session = await loadSession(id);
+    if (session) openSession(session);
+    else setError('The saved session could not be loaded.');
+  };
 
-    loadFiles();
-  }, [minThreshold]);
+  const handleDeleteSession = async (id: string) => {
+    await deleteSession(id);
+    if (id === activeSessionId) setActiveSessionId(null);
+    setSessions(await listSessions());
+  };
 
-  // Re-match when threshold changes
-  const handleThresholdChange = async (newThreshold: number) => {
-    setMinThreshold(newThreshold);
+  const handleExportSession = async (id: string) => {
+    const session = await loadSession(id);
+    if (!session) return;
+    const blob = new Blob([serializeSession(session)], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${session.name.replace(/[^\w.-]+/g, '-')}.match-session.json`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  // Opened before saving, so a file that cannot be shown is never stored
+  const handleImportSession = async (session: MatchSession) => {
+    openSession(session);
+    try {
+      await saveSession(session);
+    } catch (err) {
+      console.error('Error saving imported session:', err);
+      setActiveSessionId(null);
+      throw new Error('The session is open but could not be saved. The browser may be out of storage space.');
+    }
+    setSessions(await listSessions());
+  };
+
+  const defaultSessionName = candidates && runSettings && inputFiles
+    ? `${inputFiles.genConsumable.fileName.replace(/\.[^.]+$/, '')} · ${new Date().toLocaleDateString()}`
+    : '';
+
+  // Re-match after a matcher setting changes; the threshold alone never needs a run
+  const handleReanalyze = async () => {
     if (itemMasterData.length > 0 && genConsumableData.length > 0) {
-      setProcessing(true);
-      setProgress(0);
-      setStartTime(Date.now());
-      const results = await matchDescriptionsAsync(
-        itemMasterData, 
-        genConsumableData, 
-        newThreshold,
-        2000,
-        (prog) => setProgress(prog)
-      );
-      setMatches(results);
-      setProcessing(false);
-      setProgress(100);
+      await runMatching(itemMasterData, genConsumableData, { scorer, attributeMode, synonyms, assignmentCapacity });
     }
   };
 
+  // Threshold views over the candidates of the last run; deferred so the slider stays responsive.
+  // Below the run's candidate threshold there is nothing complete to show.
+  const candidateFloor = candidates?.minThreshold ?? 0;
+  const threshold = Math.max(minThreshold, candidateFloor);
+  const viewThreshold = useDeferredValue(threshold);
+  // Capacity of the run that produced the current matches (0 = top matches)
+  const resultCapacity = candidates?.assignmentCapacity ?? 0;
+
+  // Every match at the threshold: the grid is virtualized, and results are built once per pair
+  const matches = useMemo(() => {
+    if (!candidates) return [];
+    return selectMatchResults(candidates, itemMasterData, genConsumableData, viewThreshold, Infinity);
+  }, [candidates, itemMasterData, genConsumableData, viewThreshold]);
+
+  const coverage = useMemo(() => {
+    if (!candidates) return null;
+    return selectMatchCoverage(candidates, itemMasterData.length, genConsumableData.length, viewThreshold);
+  }, [candidates, itemMasterData, genConsumableData, viewThreshold]);
+
   // Analytics calculations
   const analytics = useMemo(() => {
-    const matchCounts = {
-      excellent: matches.filter(m => m.matchPercentage >= 90).length,
-      good: matches.filter(m => m.matchPercentage >= 70 && m.matchPercentage < 90).length,
-      fair: matches.filter(m => m.matchPercentage >= 50 && m.matchPercentage < 70).length,
-      poor: matches.filter(m => m.matchPercentage < 50).length,
-    };
     const avgMatch = matches.length > 0 ? matches.reduce((sum, m) => sum + m.matchPercentage, 0) / matches.length : 0;
-    return { matchCounts, avgMatch: avgMatch.toFixed(2), total: matches.length };
+    return { avgMatch: avgMatch.toFixed(2), total: matches.length };
   }, [matches]);
 
   // Filtered matches
-  const filteredMatches = useMemo(() => {
-    let filtered = [...matches];
-    if (searchTerm) {
-      const term = searchTerm.toLowerCase();
-      filtered = filtered.filter(m => 
-        m.itemMasterDescription.toLowerCase().includes(term) ||
-        m.genConsumableDescription.toLowerCase().includes(term) ||
-        m.itemMasterRow['Item Code']?.toLowerCase().includes(term) ||
-        m.genConsumableRow['NUPCO CODE']?.toLowerCase().includes(term)
-      );
-    }
-    if (filterQuality !== 'all') {
-      filtered = filtered.filter(m => {
-        if (filterQuality === 'excellent') return m.matchPercentage >= 90;
-        if (filterQuality === 'good') return m.matchPercentage >= 70 && m.matchPercentage < 90;
-        if (filterQuality === 'fair') return m.matchPercentage >= 50 && m.matchPercentage < 70;
-        if (filterQuality === 'poor') return m.matchPercentage < 50;
-        return true;
-      });
+  // Confirmed pairs are pinned even when the latest run no longer returns them
+  const reviewedMatches = useMemo(() => {
+    const returned = new Set(matches.flatMap(m => [getMatchReviewKey(m), getLegacyReviewKey(m)]));
+    const itemsByCode = new Map(itemMasterData.map(item => [item.code, item]));
+    const linesByKey = indexTenderLines(genConsumableData);
+
+    const pinned: MatchResult[] = [];
+    reviewDecisions.forEach(decision => {
+      if (decision.status !== 'confirmed' || returned.has(decision.id)) return;
+      const item = itemsByCode.get(decision.itemMasterCode);
+      const line = linesByKey.get(getTenderLineKey(decision.genConsumableCode, decision.genConsumableLine));
+      if (item && line) pinned.push(buildManualMatchResult(item, line, scorer, synonyms));
+    });
+
+    const all = [...pinned, ...matches];
+    if (rerankerModel && rerankEnabled) {
+      const probabilities = new Map(all.map(m => [m, predictMatchProbability(rerankerModel, m)]));
+      all.sort((a, b) => (probabilities.get(b) as number) - (probabilities.get(a) as number));
     }
-    return filtered;
-  }, [matches, searchTerm, filterQuality]);
-
-  // Export to CSV
-  const exportToCSV = () => {
-    const headers = [
-      'Match %', 
-      'Item Code', 
-      'Item Description', 
-      'Item UOM', 
-      'NUPCO Code', 
-      'Gen Description', 
-      'Gen UOM',
-      'Common Words Count',
-      'Common Words',
-      'Only in Item Master Count',
-      'Only in Item Master',
-      'Only in Gen Consumable Count',
-      'Only in Gen Consumable'
-    ];
-    const rows = filteredMatches.map(m => [
-      m.matchPercentage,
-      m.itemMasterRow['Item Code'] || '',
-      m.itemMasterDescription.replace(/,/g, ';'),
-      m.itemMasterRow['UOM'] || '',
-      m.genConsumableRow['NUPCO CODE'] || '',
-      m.genConsumableDescription.replace(/,/g, ';'),
-      m.genConsumableRow['UOM'] || '',
-      m.differences.commonWords.length,
-      m.differences.commonWords.join(' | '),
-      m.differences.onlyInItemMaster.length,
-      m.differences.onlyInItemMaster.join(' | '),
-      m.differences.onlyInGenConsumable.length,
-      m.differences.onlyInGenConsumable.join(' | ')
-    ]);
-    const csv = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `match-results-${new Date().toISOString().split('T')[0]}.csv`;
-    a.click();
+    const isConfirmed = (m: MatchResult) => findReview(reviewDecisions, m)?.status === 'confirmed';
+    return [...all.filter(isConfirmed), ...all.filter(m => !isConfirmed(m))];
+  }, [matches, reviewDecisions, itemMasterData, genConsumableData, scorer, synonyms, rerankerModel, rerankEnabled]);
+
+  // Confirmed and rejected pairs are the training data of the re-ranking model
+  const labeledMatches = useMemo(() => {
+    const matchesByKey = new Map(reviewedMatches.flatMap(m => [
+      [getLegacyReviewKey(m), m] as const,
+      [getMatchReviewKey(m), m] as const,
+    ]));
+    const itemsByCode = new Map(itemMasterData.map(item => [item.code, item]));
+    const linesByKey = indexTenderLines(genConsumableData);
+
+    const labeled: LabeledMatch[] = [];
+    reviewDecisions.forEach(decision => {
+      if (decision.status !== 'confirmed' && decision.status !== 'rejected') return;
+      const item = itemsByCode.get(decision.itemMasterCode);
+      const line = linesByKey.get(getTenderLineKey(decision.genConsumableCode, decision.genConsumableLine));
+      const match = matchesByKey.get(decision.id)
+        ?? (item && line ? buildManualMatchResult(item, line, scorer, synonyms) : undefined);
+      if (match) labeled.push({ match, correct: decision.status === 'confirmed' });
+    });
+    return labeled;
+  }, [reviewedMatches, reviewDecisions, itemMasterData, genConsumableData, scorer, synonyms]);
+
+  const handleTrainReranker = () => {
+    if (!canTrainReranker(labeledMatches)) return;
+    const model = trainReranker(labeledMatches);
+    console.log(`Trained re-ranking model on ${model.sampleCount} pairs, accuracy ${model.accuracy}%`);
+    setRerankerModel(model);
+    setRerankEnabled(true);
+    saveRerankerModel(model);
   };
 
-  const getMatchColor = (percentage: number) => {
-    if (percentage >= 90) return 'bg-green-100 text-green-800 border-green-300';
-    if (percentage >= 70) return 'bg-blue-100 text-blue-800 border-blue-300';
-    if (percentage >= 50) return 'bg-yellow-100 text-yellow-800 border-yellow-300';
-    return 'bg-red-100 text-red-800 border-red-300';
+  const handleResetReranker = () => {
+    setRerankerModel(null);
+    saveRerankerModel(null);
   };
 
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center">
-        <div className="text-center bg-white rounded-lg shadow-lg p-8 max-w-md">
-          <div className="inline-block animate-spin rounded-full h-16 w-16 border-b-4 border-blue-600 mb-4"></div>
-          <h2 className="text-2xl font-semibold text-gray-800">Loading CSV Files...</h2>
-          <p className="text-gray-600 mt-2">Please wait while we load the data (much faster than Excel!)</p>
-        </div>
-      </div>
+  const bidCandidates = useMemo(
+    () => reviewedMatches.filter(m => findReview(reviewDecisions, m)?.status !== 'rejected'),
+    [reviewedMatches, reviewDecisions]
+  );
+
+  // A query that does not parse filters nothing; its error is shown under the search box
+  const searchQuery = useMemo(() => {
+    try {
+      return { predicate: compileSearchQuery(searchTerm), error: null };
+    } catch (err) {
+      if (!(err instanceof QuerySyntaxError)) throw err;
+      return { predicate: null, error: err };
+    }
+  }, [searchTerm]);
+
+  // Every filter except the facets, which are counted over the matches that pass it
+  const passesFilters = useCallback((m: MatchSummary) => {
+    const status = findReview(reviewDecisions, m)?.status ?? null;
+    const passesReview = reviewFilter === 'active' ? status !== 'rejected'
+      : reviewFilter === 'unreviewed' ? status === null
+      : status === reviewFilter;
+    if (!passesReview) return false;
+    if (searchQuery.predicate && !searchQuery.predicate(m)) return false;
+    if (filterQuality === 'excellent') return m.matchPercentage >= 90;
+    if (filterQuality === 'good') return m.matchPercentage >= 70 && m.matchPercentage < 90;
+    if (filterQuality === 'fair') return m.matchPercentage >= 50 && m.matchPercentage < 70;
+    if (filterQuality === 'poor') return m.matchPercentage < 50;
+    return true;
+  }, [reviewDecisions, reviewFilter, searchQuery, filterQuality]);
+
+  const searchedMatches = useMemo(() => reviewedMatches.filter(passesFilters), [reviewedMatches, passesFilters]);
+
+  const facetCounts = useMemo(() => countFacetValues(searchedMatches, facetSelection), [searchedMatches, facetSelection]);
+  const filteredMatches = useMemo(() => filterByFacets(searchedMatches, facetSelection), [searchedMatches, facetSelection]);
+
+  // Matches and covered lines at every threshold the candidates allow, under the same filters;
+  // built from the candidates, so confirmed pairs pinned from outside them are not counted
+  const sensitivity = useMemo(() => {
+    if (!candidates || !showStats) return [];
+    return calculateThresholdSensitivity(
+      t => filterByFacets(selectMatchSummaries(candidates, itemMasterData, genConsumableData, t).filter(passesFilters), facetSelection),
+      candidateFloor
     );
-  }
+  }, [candidates, showStats, itemMasterData, genConsumableData, passesFilters, facetSelection, candidateFloor]);
+
+  // Latest confirmed product per tender line (NUPCO code + SN, or the code alone for
+  // decisions covering every line with it), priced from the price list
+  const bidOffers = useMemo(() => {
+    const itemsByCode = new Map(itemMasterData.map(item => [item.code, item]));
+    const latest = new Map<string, ReviewDecision>();
+    reviewDecisions.forEach(decision => {
+      if (decision.status !== 'confirmed' || !itemsByCode.has(decision.itemMasterCode)) return;
+      const lineKey = getTenderLineKey(decision.genConsumableCode, decision.genConsumableLine);
+      const current = latest.get(lineKey);
+      if (!current || decision.updatedAt > current.updatedAt) latest.set(lineKey, decision);
+    });
+
+    const offers = new Map<string, BidOffer>();
+    latest.forEach((decision, lineKey) => {
+      offers.set(lineKey, {
+        item: itemsByCode.get(decision.itemMasterCode) as MatchRecord<ItemMasterRow>,
+        unitPrice: prices[decision.itemMasterCode] ?? null,
+      });
+    });
+    return offers;
+  }, [reviewDecisions, itemMasterData, prices]);
+
+  const exportBidTemplate = () => {
+    downloadWorkbook('nupco-bid-submission', [buildBidTemplateSheet(genConsumableData, bidOffers, inputFiles?.genConsumable.sheet)]);
+  };
 
-  if (processing && !loading) {
+  // Export the filtered matches as a workbook, or just the matches sheet as CSV
+  const exportMatches = (format: 'xlsx' | 'csv') => {
+    const data: MatchExportData = {
+      matches: filteredMatches,
+      tenderLines: genConsumableData,
+      itemRecords: itemMasterData,
+      settings: [
+        ['Exported At', new Date().toISOString()],
+        ['Minimum Threshold %', viewThreshold],
+        ['Scorer', SCORERS[scorer].label],
+        ['Attribute Check', ATTRIBUTE_MODES.find(mode => mode.id === attributeMode)?.label ?? attributeMode],
+        ['Tender Line Assignment', resultCapacity > 0 ? `Up to ${resultCapacity} per line` : 'Off'],
+        ['Synonym Terms', synonyms.length],
+        ['Learned Re-ranking', rerankerModel && rerankEnabled ? 'On' : 'Off'],
+        ['Review Filter', reviewFilter],
+        ['Quality Filter', filterQuality],
+        ['Search', searchTerm],
+        ['Attribute Filters', describeFacetSelection(facetSelection)],
+        ['Item Master Rows', itemMasterData.length],
+        ['Tender Lines', genConsumableData.length],
+        ['Exported Matches', filteredMatches.length],
+      ],
+      getReview: m => findReview(reviewDecisions, m),
+      getProbability: m => (rerankerModel && rerankEnabled ? predictMatchProbability(rerankerModel, m) : null),
+    };
+    if (format === 'csv') {
+      const { headers, rows } = buildMatchesSheet(data);
+      downloadCsv('match-results', headers, rows);
+    } else {
+      downloadWorkbook('match-results', buildMatchExportSheets(data));
+    }
+  };
+
+  if (processing) {
     const elapsed = Date.now() - startTime;
     const estimatedTotal = progress > 0 ? (elapsed / progress) * 100 : 0;
     const remaining = Math.max(0, estimatedTotal - elapsed);
@@ -201,9 +653,20 @@ export default function EnhancedDashboard() {
               Estimated time remaining: ~{remainingSeconds}s
             </p>
           )}
+          {matchesFound > 0 && (
+            <p className="text-sm text-gray-500 mt-1">
+              {matchesFound.toLocaleString()} candidate matches found so far
+            </p>
+          )}
           <p className="text-xs text-gray-400 mt-3">
             Processing {itemMasterData.length} × {genConsumableData.length} comparisons
           </p>
+          <button
+            onClick={handleCancelMatching}
+            className="mt-6 px-6 py-2 border border-gray-300 rounded-lg text-gray-700 font-semibold hover:bg-gray-50 transition-colors"
+          >
+            ✖ Cancel
+          </button>
         </div>
       </div>
     );
@@ -216,8 +679,42 @@ export default function EnhancedDashboard() {
           <svg className="w-16 h-16 mx-auto text-red-500 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
           </svg>
-          <h2 className="text-2xl font-semibold text-gray-800 mb-2">Error Loading Files</h2>
+          <h2 className="text-2xl font-semibold text-gray-800 mb-2">Error Matching Files</h2>
           <p className="text-gray-600">{error}</p>
+          <button
+            onClick={handleNewFiles}
+            className="mt-4 text-blue-600 hover:text-blue-700 font-medium text-sm"
+          >
+            ← Upload different files
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (itemMasterData.length === 0 || genConsumableData.length === 0) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+        <div className="bg-white shadow-md border-b border-gray-200">
+          <div className="max-w-7xl mx-auto px-6 py-4">
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+              🎯 Match Analysis Dashboard
+            </h1>
+            <p className="text-gray-600 mt-1">Upload your Item Master and a tender items list to start matching</p>
+          </div>
+        </div>
+        <div className="max-w-7xl mx-auto px-6 py-6">
+          <SessionManager
+            sessions={sessions}
+            activeSessionId={null}
+            defaultName=""
+            open={sessions.length > 0}
+            onOpen={handleOpenSession}
+            onDelete={handleDeleteSession}
+            onExport={handleExportSession}
+            onImport={handleImportSession}
+          />
+          <FileUploadPanel onStartMatching={handleStartMatching} />
         </div>
       </div>
     );
@@ -235,20 +732,71 @@ export default function EnhancedDashboard() {
               </h1>
               <p className="text-gray-600 mt-1">Intelligent description matching with advanced analytics</p>
             </div>
-            <button
-              onClick={exportToCSV}
-              className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-semibold shadow-md transition-colors"
-            >
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-              </svg>
-              Export CSV ({filteredMatches.length})
-            </button>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handleNewFiles}
+                className="flex items-center gap-2 bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 px-4 py-2 rounded-lg font-semibold shadow-sm transition-colors"
+              >
+                📂 New Files
+              </button>
+              <button
+                onClick={() => exportMatches('xlsx')}
+                className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-semibold shadow-md transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                </svg>
+                Export Excel ({filteredMatches.length})
+              </button>
+              <button
+                onClick={() => exportMatches('csv')}
+                className="bg-white hover:bg-gray-100 text-green-700 border border-green-600 px-4 py-2 rounded-lg font-semibold shadow-md transition-colors"
+              >
+                CSV
+              </button>
+              <button
+                onClick={exportBidTemplate}
+                disabled={bidOffers.size === 0}
+                title={inputFiles?.genConsumable.sheet
+                  ? 'The tender file as uploaded, with our confirmed offers and bid quantities appended'
+                  : 'This session was saved without the original tender layout, so the sheet uses the parsed tender rows'}
+                className="bg-white hover:bg-gray-100 text-blue-700 border border-blue-600 px-4 py-2 rounded-lg font-semibold shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                📑 NUPCO Bid ({bidOffers.size})
+              </button>
+            </div>
           </div>
         </div>
       </div>
 
       <div className="max-w-7xl mx-auto px-6 py-6 space-y-6">
+        {/* Cancelled Run Banner */}
+        {pausedRun && (
+          <div className="bg-amber-50 border-l-4 border-amber-500 rounded-lg p-4 flex items-center justify-between flex-wrap gap-3">
+            <div className="text-sm">
+              <p className="font-semibold text-gray-900">⏸️ Matching cancelled at {getCheckpointProgress(pausedRun.checkpoint)}%</p>
+              <p className="text-gray-700 mt-1">
+                {matches.length > 0 ? 'Showing results from the previous completed run. ' : ''}
+                Resume to continue the run where it stopped.
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setPausedRun(null)}
+                className="text-gray-600 hover:text-gray-800 font-medium text-sm"
+              >
+                Dismiss
+              </button>
+              <button
+                onClick={handleResumeMatching}
+                className="bg-amber-500 hover:bg-amber-600 text-white px-4 py-2 rounded-lg font-semibold shadow-sm transition-colors"
+              >
+                ▶ Resume
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Performance Info Banner */}
         <div className="bg-gradient-to-r from-blue-50 to-purple-50 border-l-4 border-blue-500 rounded-lg p-4">
           <div className="flex items-start gap-3">
@@ -256,10 +804,10 @@ export default function EnhancedDashboard() {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
             </svg>
             <div className="text-sm">
-              <p className="font-semibold text-gray-900">⚡ Optimized for Speed</p>
+              <p className="font-semibold text-gray-900">⚡ Instant Threshold Changes</p>
               <p className="text-gray-700 mt-1">
-                Initial threshold set to <span className="font-bold text-blue-600">70%</span> for faster loading. 
-                Lower the threshold and click &quot;Re-Analyze&quot; to find more matches.
+                Every candidate pair is scored once, so moving the threshold slider updates the results immediately.
+                Click &quot;Re-Analyze&quot; only after changing the scorer, attribute check, assignment or synonyms.
               </p>
             </div>
           </div>
@@ -324,11 +872,11 @@ export default function EnhancedDashboard() {
           </div>
         </div>
 
-        {/* Match Quality Distribution */}
+        {/* Match Analytics */}
         <div className="bg-white rounded-lg shadow-md p-6">
           <div className="flex justify-between items-center mb-4">
             <h3 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
-              <span>📊</span> Match Quality Distribution
+              <span>📊</span> Match Analytics
             </h3>
             <button 
               onClick={() => setShowStats(!showStats)} 
@@ -352,44 +900,11 @@ export default function EnhancedDashboard() {
             </button>
           </div>
           {showStats && (
-            <div className="space-y-4">
-              <div>
-                <div className="flex justify-between mb-2">
-                  <span className="text-sm font-medium text-gray-700">🟢 Excellent (90-100%)</span>
-                  <span className="text-sm font-bold text-green-600">{analytics.matchCounts.excellent} matches</span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-3">
-                  <div className="bg-green-500 h-3 rounded-full transition-all" style={{ width: `${(analytics.matchCounts.excellent / analytics.total) * 100 || 0}%` }}></div>
-                </div>
-              </div>
-              <div>
-                <div className="flex justify-between mb-2">
-                  <span className="text-sm font-medium text-gray-700">🔵 Good (70-89%)</span>
-                  <span className="text-sm font-bold text-blue-600">{analytics.matchCounts.good} matches</span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-3">
-                  <div className="bg-blue-500 h-3 rounded-full transition-all" style={{ width: `${(analytics.matchCounts.good / analytics.total) * 100 || 0}%` }}></div>
-                </div>
-              </div>
-              <div>
-                <div className="flex justify-between mb-2">
-                  <span className="text-sm font-medium text-gray-700">🟡 Fair (50-69%)</span>
-                  <span className="text-sm font-bold text-yellow-600">{analytics.matchCounts.fair} matches</span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-3">
-                  <div className="bg-yellow-500 h-3 rounded-full transition-all" style={{ width: `${(analytics.matchCounts.fair / analytics.total) * 100 || 0}%` }}></div>
-                </div>
-              </div>
-              <div>
-                <div className="flex justify-between mb-2">
-                  <span className="text-sm font-medium text-gray-700">🔴 Poor (&lt;50%)</span>
-                  <span className="text-sm font-bold text-red-600">{analytics.matchCounts.poor} matches</span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-3">
-                  <div className="bg-red-500 h-3 rounded-full transition-all" style={{ width: `${(analytics.matchCounts.poor / analytics.total) * 100 || 0}%` }}></div>
-                </div>
-              </div>
-            </div>
+            <AnalyticsPanel
+              matches={filteredMatches}
+              tenderLines={genConsumableData}
+              sensitivity={sensitivity}
+            />
           )}
         </div>
 
@@ -400,22 +915,34 @@ export default function EnhancedDashboard() {
           </h3>
           
           {/* Search and Filter */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">🔍 Search</label>
               <input
                 type="text"
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
-                placeholder="Search by description or code..."
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder='e.g. bu:"Wound Care" score:>85 -latex'
+                className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                  searchQuery.error ? 'border-red-400' : 'border-gray-300'
+                }`}
               />
+              {searchQuery.error ? (
+                <p className="text-xs text-red-600 mt-1">⚠️ {searchQuery.error.message}</p>
+              ) : (
+                <p
+                  className="text-xs text-gray-500 mt-1 cursor-help"
+                  title={SEARCH_FIELDS.map(field => `${field.names.join(' / ')}: ${field.label}`).join('\n')}
+                >
+                  field:value, &quot;phrases&quot;, wild*, score:&gt;85, qty:10..50, -exclude, OR, (groups), /regex/
+                </p>
+              )}
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">🎯 Quality Filter</label>
               <select
                 value={filterQuality}
-                onChange={(e) => setFilterQuality(e.target.value as 'all' | 'excellent' | 'good' | 'fair' | 'poor')}
+                onChange={(e) => setFilterQuality(e.target.value as QualityFilter)}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               >
                 <option value="all">All Matches</option>
@@ -425,19 +952,113 @@ export default function EnhancedDashboard() {
                 <option value="poor">Poor (&lt;50%)</option>
               </select>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">📝 Review Status</label>
+              <select
+                value={reviewFilter}
+                onChange={(e) => setReviewFilter(e.target.value as ReviewFilter)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="active">All except rejected</option>
+                <option value="unreviewed">Not reviewed yet</option>
+                {REVIEW_STATUSES.map(({ id, label }) => (
+                  <option key={id} value={id}>{label}</option>
+                ))}
+              </select>
+            </div>
           </div>
 
+          <FacetFilterPanel counts={facetCounts} selection={facetSelection} onChange={setFacetSelection} />
+
+          {/* Scorer and Attribute Check */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">🧮 Similarity Scorer</label>
+              <select
+                value={scorer}
+                onChange={(e) => setScorer(e.target.value as ScorerId)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {Object.values(SCORERS).map(({ id, label }) => (
+                  <option key={id} value={id}>{label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                {SCORERS[scorer].description}. Click &quot;Re-Analyze&quot; to apply.
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">🧬 Attribute Check</label>
+              <select
+                value={attributeMode}
+                onChange={(e) => setAttributeMode(e.target.value as AttributeMode)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {ATTRIBUTE_MODES.map(({ id, label }) => (
+                  <option key={id} value={id}>{label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Compares volume, gauge, French size, dimensions, pack count and sterility.
+                {attributeMode === 'penalize' && ` Each conflict costs ${ATTRIBUTE_CONFLICT_PENALTY} points.`}
+              </p>
+            </div>
+          </div>
+
+          {/* Tender Line Assignment */}
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">🔗 Tender Line Assignment</label>
+            <select
+              value={assignmentCapacity}
+              onChange={(e) => setAssignmentCapacity(Number(e.target.value))}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value={0}>Off (all top matches)</option>
+              {ASSIGNMENT_CAPACITIES.map(capacity => (
+                <option key={capacity} value={capacity}>
+                  One-to-one: up to {capacity} item{capacity === 1 ? '' : 's'} per tender line
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Assigns each Item Master product to at most one tender line, maximizing the total match score.
+            </p>
+          </div>
+
+          <SynonymDictionaryEditor entries={synonyms} onChange={handleSynonymsChange} />
+
+          <RerankerPanel
+            model={rerankerModel}
+            enabled={rerankEnabled}
+            confirmedCount={labeledMatches.filter(l => l.correct).length}
+            rejectedCount={labeledMatches.filter(l => !l.correct).length}
+            onTrain={handleTrainReranker}
+            onToggle={setRerankEnabled}
+            onReset={handleResetReranker}
+          />
+
+          <SessionManager
+            sessions={sessions}
+            activeSessionId={activeSessionId}
+            defaultName={defaultSessionName}
+            onSave={handleSaveSession}
+            onOpen={handleOpenSession}
+            onDelete={handleDeleteSession}
+            onExport={handleExportSession}
+            onImport={handleImportSession}
+          />
+
           {/* Threshold Slider */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Minimum Match Threshold: <span className="text-blue-600 font-bold">{minThreshold}%</span>
+              Minimum Match Threshold: <span className="text-blue-600 font-bold">{threshold}%</span>
             </label>
             <input
               type="range"
               min="0"
               max="100"
-              value={minThreshold}
-              onChange={(e) => setMinThreshold(Number(e.target.value))}
+              value={threshold}
+              onChange={(e) => setMinThreshold(Math.max(Number(e.target.value), candidateFloor))}
               className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
             />
             <div className="flex justify-between text-xs text-gray-500 mt-1">
@@ -447,8 +1068,14 @@ export default function EnhancedDashboard() {
               <span>75%</span>
               <span>100%</span>
             </div>
+            {candidateFloor > 0 && (
+              <p className="text-xs text-amber-700 mt-2">
+                These files were matched with the token index, which can miss pairs scoring under {candidateFloor}%,
+                so the threshold starts there.
+              </p>
+            )}
             <button
-              onClick={() => handleThresholdChange(minThreshold)}
+              onClick={handleReanalyze}
               disabled={processing}
               className="mt-4 w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white font-semibold py-3 px-6 rounded-lg hover:from-blue-700 hover:to-purple-700 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed transition-all shadow-md"
             >
@@ -457,211 +1084,94 @@ export default function EnhancedDashboard() {
           </div>
         </div>
 
+        {/* View Switcher */}
+        <div className="flex gap-2">
+          {([
+            ['matches', '🔍 Match Results'],
+            ['coverage', '🧾 Tender Coverage'],
+            ['revenue', '💰 Bid Value'],
+          ] as const).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setView(id)}
+              className={`px-5 py-2 rounded-lg font-semibold transition-colors shadow-sm ${
+                view === id ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {view === 'coverage' && coverage && (
+          <CoverageView
+            matches={matches}
+            coverage={coverage}
+            tenderLines={genConsumableData}
+            itemRecords={itemMasterData}
+            threshold={viewThreshold}
+          />
+        )}
+
+        {view === 'revenue' && (
+          <RevenueEstimateView matches={bidCandidates} prices={prices} onPricesChange={handlePricesChange} />
+        )}
+
+        {view === 'matches' && resultCapacity > 0 && matches.length > 0 && (
+          <TenderProposalTable matches={matches} tenderLines={genConsumableData} capacity={resultCapacity} />
+        )}
+
         {/* Results Section */}
-        {filteredMatches.length > 0 && (
+        {view === 'matches' && filteredMatches.length > 0 && (
           <div className="bg-white rounded-lg shadow-md p-6">
             <div className="flex justify-between items-center mb-4 flex-wrap gap-4">
               <h2 className="text-2xl font-semibold text-gray-800 flex items-center gap-2">
                 <span>🔍</span> Match Results
               </h2>
-              <div className="flex flex-col items-end gap-1">
-                <span className="bg-blue-100 text-blue-800 px-4 py-2 rounded-full font-semibold">
-                  {filteredMatches.length} matches found
-                </span>
-                {matches.length >= 1000 && (
-                  <span className="text-xs text-gray-500">
-                    Showing top 1000 results
-                  </span>
-                )}
-              </div>
+              <span className="bg-blue-100 text-blue-800 px-4 py-2 rounded-full font-semibold">
+                {filteredMatches.length} matches found
+              </span>
             </div>
 
-            <div className="space-y-4">
-              {filteredMatches.slice(0, 100).map((match, index) => (
-                <div
-                  key={index}
-                  className="border border-gray-200 rounded-lg hover:shadow-lg transition-all hover:border-blue-300"
-                >
-                  {/* Match Header */}
-                  <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 bg-gradient-to-r from-gray-50 to-white">
-                    <div className="flex items-center gap-3 flex-wrap">
-                      <span className="text-sm font-medium text-gray-500">
-                        Match #{index + 1}
-                      </span>
-                      <span className={`px-4 py-1 rounded-full font-bold text-lg border-2 ${getMatchColor(match.matchPercentage)}`}>
-                        {match.matchPercentage}%
-                      </span>
-                    </div>
-                  </div>
-                  
-                  {/* Match Content */}
-                  <div className="p-6">
-
-                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-                      {/* Item Master Details */}
-                      <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
-                        <h3 className="font-semibold text-blue-900 mb-3 flex items-center">
-                          <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                          </svg>
-                          Item Master
-                        </h3>
-                        <div className="space-y-2 text-sm">
-                          <div>
-                            <span className="font-medium text-gray-700">Item Code:</span>
-                            <span className="ml-2 text-gray-900">{match.itemMasterRow['Item Code']}</span>
-                          </div>
-                          <div>
-                            <span className="font-medium text-gray-700">Description:</span>
-                            <p className="ml-2 text-gray-900 mt-1">{match.itemMasterDescription}</p>
-                          </div>
-                          <div className="grid grid-cols-2 gap-2 pt-2">
-                            <div>
-                              <span className="font-medium text-gray-700">UOM:</span>
-                              <span className="ml-1 text-gray-900">{match.itemMasterRow['UOM']}</span>
-                            </div>
-                            <div>
-                              <span className="font-medium text-gray-700">Item Type:</span>
-                              <span className="ml-1 text-gray-900">{match.itemMasterRow['Item Type']}</span>
-                            </div>
-                          </div>
-                          <div>
-                            <span className="font-medium text-gray-700">Manufacturer:</span>
-                            <span className="ml-2 text-gray-900">{match.itemMasterRow['Manufacturer']}</span>
-                          </div>
-                          <div>
-                            <span className="font-medium text-gray-700">Business Unit:</span>
-                            <span className="ml-2 text-gray-900">{match.itemMasterRow['Buisness Unit']}</span>
-                          </div>
-                        </div>
-                      </div>
-
-                      {/* Gen-Consumables Details */}
-                      <div className="bg-purple-50 rounded-lg p-4 border border-purple-200">
-                        <h3 className="font-semibold text-purple-900 mb-3 flex items-center">
-                          <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                          </svg>
-                          Gen-Consumables
-                        </h3>
-                        <div className="space-y-2 text-sm">
-                          <div>
-                            <span className="font-medium text-gray-700">NUPCO Code:</span>
-                            <span className="ml-2 text-gray-900">{match.genConsumableRow['NUPCO CODE']}</span>
-                          </div>
-                          <div>
-                            <span className="font-medium text-gray-700">Description:</span>
-                            <p className="ml-2 text-gray-900 mt-1">{match.genConsumableDescription}</p>
-                          </div>
-                          <div className="grid grid-cols-2 gap-2 pt-2">
-                            <div>
-                              <span className="font-medium text-gray-700">UOM:</span>
-                              <span className="ml-1 text-gray-900">{match.genConsumableRow['UOM']}</span>
-                            </div>
-                            <div>
-                              <span className="font-medium text-gray-700">SN:</span>
-                              <span className="ml-1 text-gray-900">{match.genConsumableRow['SN']}</span>
-                            </div>
-                          </div>
-                          <div>
-                            <span className="font-medium text-gray-700">Group Category:</span>
-                            <span className="ml-2 text-gray-900">{match.genConsumableRow['GROUP CATEGORY']}</span>
-                          </div>
-                          <div>
-                            <span className="font-medium text-gray-700">Initial Quantity:</span>
-                            <span className="ml-2 text-gray-900">{match.genConsumableRow['INITIAL QUANTITY']}</span>
-                          </div>
-                        </div>
-                      </div>
-                    </div>
-
-                    {/* Differences Section */}
-                    <div className="mt-4 bg-gradient-to-r from-amber-50 to-orange-50 rounded-lg p-4 border-2 border-amber-200">
-                      <h3 className="font-semibold text-amber-900 mb-3 flex items-center">
-                        <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" />
-                        </svg>
-                        Description Differences Analysis
-                      </h3>
-                      
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
-                        {/* Only in Item Master */}
-                        <div className="bg-white rounded-lg p-3 border border-blue-200">
-                          <div className="flex items-center gap-2 mb-2">
-                            <span className="text-lg">➕</span>
-                            <span className="font-semibold text-blue-700">Only in Item Master ({match.differences.onlyInItemMaster.length})</span>
-                          </div>
-                          <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto">
-                            {match.differences.onlyInItemMaster.length > 0 ? (
-                              match.differences.onlyInItemMaster.map((word, idx) => (
-                                <span key={idx} className="bg-blue-100 text-blue-800 px-2 py-0.5 rounded text-xs font-medium">
-                                  {word}
-                                </span>
-                              ))
-                            ) : (
-                              <span className="text-gray-500 text-xs italic">No unique words</span>
-                            )}
-                          </div>
-                        </div>
-
-                        {/* Only in Gen Consumables */}
-                        <div className="bg-white rounded-lg p-3 border border-purple-200">
-                          <div className="flex items-center gap-2 mb-2">
-                            <span className="text-lg">➖</span>
-                            <span className="font-semibold text-purple-700">Only in Gen Consumables ({match.differences.onlyInGenConsumable.length})</span>
-                          </div>
-                          <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto">
-                            {match.differences.onlyInGenConsumable.length > 0 ? (
-                              match.differences.onlyInGenConsumable.map((word, idx) => (
-                                <span key={idx} className="bg-purple-100 text-purple-800 px-2 py-0.5 rounded text-xs font-medium">
-                                  {word}
-                                </span>
-                              ))
-                            ) : (
-                              <span className="text-gray-500 text-xs italic">No unique words</span>
-                            )}
-                          </div>
-                        </div>
-                      </div>
-
-                      {/* Summary Stats */}
-                      <div className="mt-3 pt-3 border-t border-amber-200 flex flex-wrap gap-4 text-xs text-gray-600">
-                        <div>
-                          <span className="font-medium">Match Accuracy:</span> {match.differences.commonWords.length > 0 
-                            ? Math.round((match.differences.commonWords.length / Math.max(match.differences.itemMasterWordCount, match.differences.genConsumableWordCount)) * 100)
-                            : 0}% of words match
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-            {filteredMatches.length > 100 && (
-              <div className="mt-6 text-center p-4 bg-blue-50 rounded-lg border border-blue-200">
-                <p className="text-sm text-gray-700">
-                  <span className="font-semibold">Showing first 100 of {filteredMatches.length} matches</span>
-                  <br />
-                  <span className="text-xs text-gray-600">Adjust filters or export CSV to see all results</span>
-                </p>
-              </div>
-            )}
+            <MatchResultsGrid
+              matches={filteredMatches}
+              getReview={m => findReview(reviewDecisions, m)}
+              getProbability={m => (rerankerModel && rerankEnabled ? predictMatchProbability(rerankerModel, m) : null)}
+              renderDetails={match => (
+                <MatchDetails
+                  match={match}
+                  decision={findReview(reviewDecisions, match)}
+                  itemRecords={itemMasterData}
+                  onStatusChange={(status) => updateReviewDecision(match, { status })}
+                  onNoteChange={(note) => updateReviewDecision(match, { note })}
+                  onLinkItem={(item) => handleLinkItem(match, item)}
+                />
+              )}
+            />
           </div>
         )}
 
         {/* No Results Message */}
-        {filteredMatches.length === 0 && matches.length > 0 && (
+        {view === 'matches' && filteredMatches.length === 0 && matches.length > 0 && (
           <div className="bg-white rounded-lg shadow-md p-8 text-center">
             <svg className="w-16 h-16 mx-auto text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
             </svg>
             <h3 className="text-xl font-semibold text-gray-700 mb-2">No matches found with current filters</h3>
-            <p className="text-gray-500">Try adjusting your search term or quality filter</p>
+            <p className="text-gray-500">Try adjusting your search term, quality or attribute filters</p>
+            {hasFacetSelection(facetSelection) && (
+              <button
+                onClick={() => setFacetSelection({})}
+                className="mt-4 px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Clear attribute filters
+              </button>
+            )}
           </div>
         )}
 
         {/* No Initial Matches Message */}
-        {matches.length === 0 && (
+        {view === 'matches' && matches.length === 0 && (
           <div className="bg-white rounded-lg shadow-md p-8 text-center">
             <svg className="w-16 h-16 mx-auto text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.172 16.172a4 4 0 015.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
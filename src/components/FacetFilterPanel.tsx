@@ -0,0 +1,70 @@
+'use client';
+
+import { FACETS, FacetCounts, FacetId, FacetSelection, UNSPECIFIED_FACET_VALUE } from '@/utils/facets';
+
+interface FacetFilterPanelProps {
+  counts: FacetCounts;
+  selection: FacetSelection;
+  onChange: (selection: FacetSelection) => void;
+}
+
+/**
+ * Checkbox filters on Item Master and tender attributes, with match counts per value
+ */
+export default function FacetFilterPanel({ counts, selection, onChange }: FacetFilterPanelProps) {
+  const activeCount = FACETS.reduce((sum, facet) => sum + (selection[facet.id]?.length ?? 0), 0);
+  // A column that is not mapped has no values to choose from
+  const shownFacets = FACETS.filter(facet => (
+    counts[facet.id].some(({ value }) => value !== UNSPECIFIED_FACET_VALUE) || (selection[facet.id]?.length ?? 0) > 0
+  ));
+
+  const toggleValue = (facetId: FacetId, value: string) => {
+    const selected = selection[facetId] ?? [];
+    const next = selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value];
+    onChange({ ...selection, [facetId]: next.length > 0 ? next : undefined });
+  };
+
+  return (
+    <details className="bg-gray-50 border border-gray-200 rounded-lg px-4 py-3 mb-4">
+      <summary className="cursor-pointer text-sm font-medium text-gray-700">
+        🧩 Attribute Filters{activeCount > 0 && ` (${activeCount} selected)`}
+      </summary>
+      <div className="flex items-center justify-between mt-2 mb-3">
+        <p className="text-xs text-gray-500">
+          Values within a filter are combined with OR, filters with each other with AND. Counts are the matches each
+          value would show with the other filters applied.
+        </p>
+        {activeCount > 0 && (
+          <button onClick={() => onChange({})} className="text-xs text-blue-600 hover:text-blue-700 font-medium flex-shrink-0 ml-3">
+            Clear all
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+        {shownFacets.map(facet => (
+          <div key={facet.id} className="bg-white border border-gray-200 rounded-lg p-2">
+            <p className="text-xs font-semibold text-gray-700 mb-1">
+              {facet.label}{' '}
+              <span className="font-normal text-gray-400">{facet.side === 'itemMaster' ? 'Item Master' : 'Tender'}</span>
+            </p>
+            <div className="max-h-40 overflow-y-auto space-y-0.5">
+              {counts[facet.id].length === 0 && <p className="text-xs text-gray-400">No values</p>}
+              {counts[facet.id].map(({ value, count }) => (
+                <label key={value} className="flex items-center gap-2 text-xs text-gray-700 cursor-pointer hover:bg-gray-50 rounded px-1">
+                  <input
+                    type="checkbox"
+                    checked={selection[facet.id]?.includes(value) ?? false}
+                    onChange={() => toggleValue(facet.id, value)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="flex-1 truncate" title={value}>{value}</span>
+                  <span className="text-gray-400">{count.toLocaleString()}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,335 @@
+'use client';
+
+import { useState, DragEvent } from 'react';
+import {
+  parseFileContent,
+  parseUploadedFile,
+  SUPPORTED_UPLOAD_EXTENSIONS,
+  ItemMasterRow,
+  GenConsumableRow,
+  ParseResult,
+  ParseWarning,
+  RawSheet,
+} from '@/utils/fileParser';
+import {
+  applyColumnMapping,
+  getFileSignature,
+  isColumnMappingComplete,
+  resolveColumnMapping,
+  saveColumnMapping,
+  ColumnMapping,
+  MappingSide,
+  MatchRecord,
+} from '@/utils/columnMapping';
+import { hashFileContent, SessionFileInfo } from '@/utils/sessionStore';
+import ColumnMappingEditor from '@/components/ColumnMappingEditor';
+
+const PREVIEW_ROW_COUNT = 5;
+const MAX_LISTED_WARNINGS = 50;
+
+const SAMPLE_ITEM_MASTER_PATH = '/Item Master - List of MFG & Trading Items.csv';
+const SAMPLE_TENDER_PATH = '/NPT0001-24-GEN-CONSUMABLES-NURSING-AND-WOUND-CARE-TENDER-ITEMS-LIST.csv';
+
+interface UploadedFile<T> extends SessionFileInfo {
+  rows: T[];
+  warnings: ParseWarning[];
+  headers: string[];
+  sheet?: RawSheet;
+}
+
+const toUploadedFile = <T extends ItemMasterRow | GenConsumableRow>(
+  fileName: string,
+  hash: string,
+  { rows, warnings, sheet }: ParseResult<T>,
+  side: MappingSide
+): UploadedFile<T> => {
+  const headers = rows.length > 0 ? Object.keys(rows[0]) : [];
+  return { fileName, hash, rows, warnings, headers, sheet, mapping: resolveColumnMapping(headers, side) };
+};
+
+const loadSampleFile = async <T extends ItemMasterRow | GenConsumableRow>(
+  path: string,
+  side: MappingSide
+): Promise<UploadedFile<T>> => {
+  // Hashed from the bytes, as uploads are, so a sample and the same file uploaded match
+  const content = await (await fetch(path)).arrayBuffer();
+  const fileName = path.slice(1);
+  return toUploadedFile(fileName, await hashFileContent(content), await parseFileContent<T>(fileName, content), side);
+};
+
+const toFileInfo = ({ fileName, hash, mapping }: SessionFileInfo): SessionFileInfo => ({ fileName, hash, mapping });
+
+interface FileDropZoneProps<T> {
+  title: string;
+  side: MappingSide;
+  accent: 'blue' | 'purple';
+  uploaded: UploadedFile<T> | null;
+  parsing: boolean;
+  error: string;
+  onFileSelected: (file: File) => void;
+  onMappingChange: (mapping: ColumnMapping) => void;
+}
+
+function FileDropZone<T extends ItemMasterRow | GenConsumableRow>({
+  title,
+  side,
+  accent,
+  uploaded,
+  parsing,
+  error,
+  onFileSelected,
+  onMappingChange,
+}: FileDropZoneProps<T>) {
+  const [dragActive, setDragActive] = useState(false);
+
+  const handleDrop = (e: DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setDragActive(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) onFileSelected(file);
+  };
+
+  const columns = uploaded?.headers ?? [];
+  const borderColor = accent === 'blue' ? 'border-blue-300' : 'border-purple-300';
+  const activeColor = accent === 'blue' ? 'bg-blue-50 border-blue-500' : 'bg-purple-50 border-purple-500';
+  const titleColor = accent === 'blue' ? 'text-blue-900' : 'text-purple-900';
+
+  return (
+    <div className="space-y-3">
+      <h3 className={`text-lg font-semibold ${titleColor}`}>{title}</h3>
+      <label
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragActive(true);
+        }}
+        onDragLeave={() => setDragActive(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center border-2 border-dashed rounded-lg p-6 cursor-pointer transition-colors ${
+          dragActive ? activeColor : `${borderColor} bg-white hover:bg-gray-50`
+        }`}
+      >
+        <svg className="w-10 h-10 text-gray-400 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+        </svg>
+        <p className="text-sm text-gray-700 font-medium">
+          {parsing ? 'Parsing file...' : 'Drag & drop a file here, or click to browse'}
+        </p>
+        <p className="text-xs text-gray-500 mt-1">Accepted: {SUPPORTED_UPLOAD_EXTENSIONS.join(', ')}</p>
+        <input
+          type="file"
+          accept={SUPPORTED_UPLOAD_EXTENSIONS.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onFileSelected(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {uploaded && (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <div className="flex justify-between items-center px-4 py-2 bg-gray-50 border-b border-gray-200 text-sm">
+            <span className="font-medium text-gray-800 truncate" title={uploaded.fileName}>{uploaded.fileName}</span>
+            <span className="text-gray-600 whitespace-nowrap ml-2">
+              {uploaded.rows.length.toLocaleString()} rows · {columns.length} columns
+            </span>
+          </div>
+          <div className="overflow-x-auto max-h-64">
+            <table className="min-w-full text-xs">
+              <thead className="bg-gray-100">
+                <tr>
+                  {columns.map(col => (
+                    <th key={col} className="px-3 py-2 text-left font-semibold text-gray-700 whitespace-nowrap">{col}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {uploaded.rows.slice(0, PREVIEW_ROW_COUNT).map((row, idx) => (
+                  <tr key={idx} className="border-t border-gray-100">
+                    {columns.map(col => (
+                      <td key={col} className="px-3 py-1.5 text-gray-800 whitespace-nowrap max-w-xs truncate">
+                        {String((row as unknown as Record<string, unknown>)[col] ?? '')}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {uploaded && uploaded.warnings.length > 0 && (
+        <details className="bg-amber-50 border border-amber-200 rounded-lg px-4 py-2 text-sm">
+          <summary className="cursor-pointer font-medium text-amber-800">
+            ⚠️ {uploaded.warnings.length.toLocaleString()} parse warning{uploaded.warnings.length === 1 ? '' : 's'}
+          </summary>
+          <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto text-xs text-amber-900">
+            {uploaded.warnings.slice(0, MAX_LISTED_WARNINGS).map((warning, idx) => (
+              <li key={idx}>
+                Row {warning.row}{warning.column && ` · ${warning.column}`}: {warning.message}
+              </li>
+            ))}
+            {uploaded.warnings.length > MAX_LISTED_WARNINGS && (
+              <li className="italic">…and {uploaded.warnings.length - MAX_LISTED_WARNINGS} more</li>
+            )}
+          </ul>
+        </details>
+      )}
+
+      {uploaded && (
+        <ColumnMappingEditor side={side} headers={columns} mapping={uploaded.mapping} onChange={onMappingChange} />
+      )}
+    </div>
+  );
+}
+
+export interface MatchInputFiles {
+  itemMaster: SessionFileInfo;
+  genConsumable: SessionFileInfo & { sheet?: RawSheet }; // the sheet is for the bid submission export
+}
+
+interface FileUploadPanelProps {
+  onStartMatching: (
+    itemMasterData: MatchRecord<ItemMasterRow>[],
+    genConsumableData: MatchRecord<GenConsumableRow>[],
+    inputFiles: MatchInputFiles
+  ) => void;
+}
+
+export default function FileUploadPanel({ onStartMatching }: FileUploadPanelProps) {
+  const [itemMasterFile, setItemMasterFile] = useState<UploadedFile<ItemMasterRow> | null>(null);
+  const [tenderFile, setTenderFile] = useState<UploadedFile<GenConsumableRow> | null>(null);
+  const [itemMasterParsing, setItemMasterParsing] = useState(false);
+  const [tenderParsing, setTenderParsing] = useState(false);
+  const [itemMasterError, setItemMasterError] = useState('');
+  const [tenderError, setTenderError] = useState('');
+  const [loadingSamples, setLoadingSamples] = useState(false);
+
+  const handleItemMasterFile = async (file: File) => {
+    setItemMasterParsing(true);
+    setItemMasterError('');
+    try {
+      const [result, hash] = await Promise.all([parseUploadedFile<ItemMasterRow>(file), file.arrayBuffer().then(hashFileContent)]);
+      setItemMasterFile(toUploadedFile(file.name, hash, result, 'itemMaster'));
+    } catch (err) {
+      console.error('Error parsing Item Master file:', err);
+      setItemMasterError(err instanceof Error ? err.message : 'Failed to parse file.');
+    } finally {
+      setItemMasterParsing(false);
+    }
+  };
+
+  const handleTenderFile = async (file: File) => {
+    setTenderParsing(true);
+    setTenderError('');
+    try {
+      const [result, hash] = await Promise.all([parseUploadedFile<GenConsumableRow>(file), file.arrayBuffer().then(hashFileContent)]);
+      setTenderFile(toUploadedFile(file.name, hash, result, 'genConsumable'));
+    } catch (err) {
+      console.error('Error parsing tender file:', err);
+      setTenderError(err instanceof Error ? err.message : 'Failed to parse file.');
+    } finally {
+      setTenderParsing(false);
+    }
+  };
+
+  const loadSampleFiles = async () => {
+    setLoadingSamples(true);
+    setItemMasterError('');
+    setTenderError('');
+    try {
+      const [itemFile, genFile] = await Promise.all([
+        loadSampleFile<ItemMasterRow>(SAMPLE_ITEM_MASTER_PATH, 'itemMaster'),
+        loadSampleFile<GenConsumableRow>(SAMPLE_TENDER_PATH, 'genConsumable')
+      ]);
+      setItemMasterFile(itemFile);
+      setTenderFile(genFile);
+    } catch (err) {
+      console.error('Error loading sample files:', err);
+      setItemMasterError('Failed to load the bundled sample files.');
+    } finally {
+      setLoadingSamples(false);
+    }
+  };
+
+  const handleItemMasterMapping = (mapping: ColumnMapping) => {
+    if (!itemMasterFile) return;
+    saveColumnMapping('itemMaster', getFileSignature(itemMasterFile.headers), mapping);
+    setItemMasterFile({ ...itemMasterFile, mapping });
+  };
+
+  const handleTenderMapping = (mapping: ColumnMapping) => {
+    if (!tenderFile) return;
+    saveColumnMapping('genConsumable', getFileSignature(tenderFile.headers), mapping);
+    setTenderFile({ ...tenderFile, mapping });
+  };
+
+  const handleStart = () => {
+    if (!itemMasterFile || !tenderFile) return;
+    onStartMatching(
+      applyColumnMapping(itemMasterFile.rows, itemMasterFile.mapping),
+      applyColumnMapping(tenderFile.rows, tenderFile.mapping),
+      { itemMaster: toFileInfo(itemMasterFile), genConsumable: { ...toFileInfo(tenderFile), sheet: tenderFile.sheet } }
+    );
+  };
+
+  const hasRows = !!itemMasterFile && itemMasterFile.rows.length > 0 && !!tenderFile && tenderFile.rows.length > 0;
+  const mappingComplete = hasRows && isColumnMappingComplete(itemMasterFile.mapping) && isColumnMappingComplete(tenderFile.mapping);
+  const canStart = hasRows && mappingComplete;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex justify-between items-center mb-4 flex-wrap gap-4">
+        <h3 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+          <span>📂</span> Upload Files
+        </h3>
+        <button
+          onClick={loadSampleFiles}
+          disabled={loadingSamples}
+          className="text-blue-600 hover:text-blue-700 font-medium text-sm disabled:text-gray-400"
+        >
+          {loadingSamples ? 'Loading samples...' : 'Use bundled sample files'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <FileDropZone
+          title="Item Master"
+          side="itemMaster"
+          accent="blue"
+          uploaded={itemMasterFile}
+          parsing={itemMasterParsing}
+          error={itemMasterError}
+          onFileSelected={handleItemMasterFile}
+          onMappingChange={handleItemMasterMapping}
+        />
+        <FileDropZone
+          title="Tender Items"
+          side="genConsumable"
+          accent="purple"
+          uploaded={tenderFile}
+          parsing={tenderParsing}
+          error={tenderError}
+          onFileSelected={handleTenderFile}
+          onMappingChange={handleTenderMapping}
+        />
+      </div>
+
+      <button
+        onClick={handleStart}
+        disabled={!canStart}
+        className="mt-6 w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white font-semibold py-3 px-6 rounded-lg hover:from-blue-700 hover:to-purple-700 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed transition-all shadow-md"
+      >
+        {canStart
+          ? `🚀 Start Matching (${itemMasterFile.rows.length.toLocaleString()} × ${tenderFile.rows.length.toLocaleString()})`
+          : hasRows
+            ? 'Map the code and description columns to start matching'
+            : 'Upload both files to start matching'}
+      </button>
+    </div>
+  );
+}
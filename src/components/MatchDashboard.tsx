@@ -3,10 +3,11 @@
 import { useState, useEffect } from 'react';
 import { loadExcelFromPath, ItemMasterRow, GenConsumableRow } from '@/utils/fileParser';
 import { matchDescriptionsAsync, MatchResult } from '@/utils/matcher';
+import { applyColumnMapping, DEFAULT_COLUMN_MAPPINGS, MatchRecord } from '@/utils/columnMapping';
 
 export default function MatchDashboard() {
-  const [itemMasterData, setItemMasterData] = useState<ItemMasterRow[]>([]);
-  const [genConsumableData, setGenConsumableData] = useState<GenConsumableRow[]>([]);
+  const [itemMasterData, setItemMasterData] = useState<MatchRecord<ItemMasterRow>[]>([]);
+  const [genConsumableData, setGenConsumableData] = useState<MatchRecord<GenConsumableRow>[]>([]);
   const [matches, setMatches] = useState<MatchResult[]>([]);
   const [loading, setLoading] = useState(true);
   const [processing, setProcessing] = useState(false);
@@ -21,10 +22,12 @@ export default function MatchDashboard() {
       setLoading(true);
       setProgress(0);
       try {
-        const [itemData, genData] = await Promise.all([
+        const [itemRows, genRows] = await Promise.all([
           loadExcelFromPath<ItemMasterRow>('/item-master.xlsx'),
           loadExcelFromPath<GenConsumableRow>('/gen-consumables.xlsx')
         ]);
+        const itemData = applyColumnMapping(itemRows.rows, DEFAULT_COLUMN_MAPPINGS.itemMaster);
+        const genData = applyColumnMapping(genRows.rows, DEFAULT_COLUMN_MAPPINGS.genConsumable);
         
         setItemMasterData(itemData);
         setGenConsumableData(genData);
@@ -259,7 +262,7 @@ export default function MatchDashboard() {
                         <div className="space-y-2 text-sm">
                           <div>
                             <span className="font-medium text-gray-700">Item Code:</span>
-                            <span className="ml-2 text-gray-900">{match.itemMasterRow['Item Code']}</span>
+                            <span className="ml-2 text-gray-900">{match.itemMasterRecord.code}</span>
                           </div>
                           <div>
                             <span className="font-medium text-gray-700">Description:</span>
@@ -268,20 +271,20 @@ export default function MatchDashboard() {
                           <div className="grid grid-cols-2 gap-2 pt-2">
                             <div>
                               <span className="font-medium text-gray-700">UOM:</span>
-                              <span className="ml-1 text-gray-900">{match.itemMasterRow['UOM']}</span>
+                              <span className="ml-1 text-gray-900">{match.itemMasterRecord.uom}</span>
                             </div>
                             <div>
                               <span className="font-medium text-gray-700">Item Type:</span>
-                              <span className="ml-1 text-gray-900">{match.itemMasterRow['Item Type']}</span>
+                              <span className="ml-1 text-gray-900">{match.itemMasterRecord.itemType}</span>
                             </div>
                           </div>
                           <div>
                             <span className="font-medium text-gray-700">Manufacturer:</span>
-                            <span className="ml-2 text-gray-900">{match.itemMasterRow['Manufacturer']}</span>
+                            <span className="ml-2 text-gray-900">{match.itemMasterRecord.manufacturer}</span>
                           </div>
                           <div>
                             <span className="font-medium text-gray-700">Business Unit:</span>
-                            <span className="ml-2 text-gray-900">{match.itemMasterRow['Buisness Unit']}</span>
+                            <span className="ml-2 text-gray-900">{match.itemMasterRecord.category}</span>
                           </div>
                         </div>
                       </div>
@@ -297,7 +300,7 @@ export default function MatchDashboard() {
                         <div className="space-y-2 text-sm">
                           <div>
                             <span className="font-medium text-gray-700">NUPCO Code:</span>
-                            <span className="ml-2 text-gray-900">{match.genConsumableRow['NUPCO CODE']}</span>
+                            <span className="ml-2 text-gray-900">{match.genConsumableRecord.code}</span>
                           </div>
                           <div>
                             <span className="font-medium text-gray-700">Description:</span>
@@ -306,20 +309,20 @@ export default function MatchDashboard() {
                           <div className="grid grid-cols-2 gap-2 pt-2">
                             <div>
                               <span className="font-medium text-gray-700">UOM:</span>
-                              <span className="ml-1 text-gray-900">{match.genConsumableRow['UOM']}</span>
+                              <span className="ml-1 text-gray-900">{match.genConsumableRecord.uom}</span>
                             </div>
                             <div>
                               <span className="font-medium text-gray-700">SN:</span>
-                              <span className="ml-1 text-gray-900">{match.genConsumableRow['SN']}</span>
+                              <span className="ml-1 text-gray-900">{match.genConsumableRecord.lineNumber}</span>
                             </div>
                           </div>
                           <div>
                             <span className="font-medium text-gray-700">Group Category:</span>
-                            <span className="ml-2 text-gray-900">{match.genConsumableRow['GROUP CATEGORY']}</span>
+                            <span className="ml-2 text-gray-900">{match.genConsumableRecord.category}</span>
                           </div>
                           <div>
                             <span className="font-medium text-gray-700">Initial Quantity:</span>
-                            <span className="ml-2 text-gray-900">{match.genConsumableRow['INITIAL QUANTITY']}</span>
+                            <span className="ml-2 text-gray-900">{match.genConsumableRecord.quantity}</span>
                           </div>
                         </div>
                       </div>
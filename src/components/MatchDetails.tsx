@@ -0,0 +1,281 @@
+'use client';
+
+import { ItemMasterRow } from '@/utils/fileParser';
+import { MatchRecord } from '@/utils/columnMapping';
+import { MatchResult } from '@/utils/matcher';
+import { BASE_SCORER_IDS, SCORERS } from '@/utils/scorers';
+import { convertQuantity, UomStatus, UOM_STATUS_LABELS } from '@/utils/uom';
+import { ReviewDecision, ReviewStatus } from '@/utils/reviewStore';
+import { DiffSegment, DiffSegmentKind } from '@/utils/descriptionDiff';
+import MatchReviewPanel from '@/components/MatchReviewPanel';
+
+interface MatchDetailsProps {
+  match: MatchResult;
+  decision?: ReviewDecision;
+  itemRecords: MatchRecord<ItemMasterRow>[];
+  onStatusChange: (status: ReviewStatus | null) => void;
+  onNoteChange: (note: string) => void;
+  onLinkItem: (item: MatchRecord<ItemMasterRow>) => void;
+}
+
+const UOM_STATUS_STYLES: Record<UomStatus, string> = {
+  same: 'bg-green-50 border-green-200 text-green-900',
+  convertible: 'bg-blue-50 border-blue-200 text-blue-900',
+  unknown: 'bg-amber-50 border-amber-200 text-amber-900',
+  incompatible: 'bg-red-50 border-red-200 text-red-900',
+};
+
+const DIFF_SEGMENT_STYLES: Record<DiffSegmentKind, string> = {
+  equal: 'text-gray-900',
+  deleted: 'bg-blue-100 text-blue-800 rounded px-0.5',
+  inserted: 'bg-purple-100 text-purple-800 rounded px-0.5',
+  numberMismatch: 'bg-red-200 text-red-900 font-bold rounded px-0.5 ring-1 ring-red-400',
+  separator: 'text-gray-500',
+};
+
+function AlignedDescription({ segments }: { segments: DiffSegment[] }) {
+  return (
+    <span className="whitespace-pre-wrap">
+      {segments.map((segment, idx) => (
+        <span key={idx} className={DIFF_SEGMENT_STYLES[segment.kind]}>{segment.text}</span>
+      ))}
+    </span>
+  );
+}
+
+/**
+ * Everything known about one match: both records, per-scorer sub-scores, attribute
+ * conflicts, the UOM check, description differences and the review controls
+ */
+export default function MatchDetails({
+  match,
+  decision,
+  itemRecords,
+  onStatusChange,
+  onNoteChange,
+  onLinkItem,
+}: MatchDetailsProps) {
+  return (
+    <div className="p-6">
+      <div className="flex items-center gap-1 flex-wrap mb-4">
+        <span className="text-xs text-gray-500 mr-1">Scored by {SCORERS[match.scorer].label} ·</span>
+        {BASE_SCORER_IDS.map(id => (
+          <span
+            key={id}
+            title={SCORERS[id].description}
+            className={`px-2 py-0.5 rounded text-xs font-medium ${
+              id === match.scorer ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700'
+            }`}
+          >
+            {SCORERS[id].label}: {match.subScores[id]}%
+          </span>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Item Master Details */}
+        <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
+          <h3 className="font-semibold text-blue-900 mb-3 flex items-center">
+            <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+            Item Master
+          </h3>
+          <div className="space-y-2 text-sm">
+            <div>
+              <span className="font-medium text-gray-700">Item Code:</span>
+              <span className="ml-2 text-gray-900">{match.itemMasterRecord.code}</span>
+            </div>
+            <div>
+              <span className="font-medium text-gray-700">Description:</span>
+              <p className="ml-2 text-gray-900 mt-1">{match.itemMasterDescription}</p>
+            </div>
+            <div className="grid grid-cols-2 gap-2 pt-2">
+              <div>
+                <span className="font-medium text-gray-700">UOM:</span>
+                <span className="ml-1 text-gray-900">{match.itemMasterRecord.uom}</span>
+              </div>
+              {match.itemMasterRecord.itemType && (
+                <div>
+                  <span className="font-medium text-gray-700">Item Type:</span>
+                  <span className="ml-1 text-gray-900">{match.itemMasterRecord.itemType}</span>
+                </div>
+              )}
+            </div>
+            {match.itemMasterRecord.manufacturer && (
+              <div>
+                <span className="font-medium text-gray-700">Manufacturer:</span>
+                <span className="ml-2 text-gray-900">{match.itemMasterRecord.manufacturer}</span>
+              </div>
+            )}
+            {match.itemMasterRecord.category && (
+              <div>
+                <span className="font-medium text-gray-700">Business Unit:</span>
+                <span className="ml-2 text-gray-900">{match.itemMasterRecord.category}</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Gen-Consumables Details */}
+        <div className="bg-purple-50 rounded-lg p-4 border border-purple-200">
+          <h3 className="font-semibold text-purple-900 mb-3 flex items-center">
+            <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+            Gen-Consumables
+          </h3>
+          <div className="space-y-2 text-sm">
+            <div>
+              <span className="font-medium text-gray-700">NUPCO Code:</span>
+              <span className="ml-2 text-gray-900">{match.genConsumableRecord.code}</span>
+            </div>
+            <div>
+              <span className="font-medium text-gray-700">Description:</span>
+              <p className="ml-2 text-gray-900 mt-1">{match.genConsumableDescription}</p>
+            </div>
+            <div className="grid grid-cols-2 gap-2 pt-2">
+              <div>
+                <span className="font-medium text-gray-700">UOM:</span>
+                <span className="ml-1 text-gray-900">{match.genConsumableRecord.uom}</span>
+              </div>
+              <div>
+                <span className="font-medium text-gray-700">SN:</span>
+                <span className="ml-1 text-gray-900">{match.genConsumableRecord.lineNumber}</span>
+              </div>
+            </div>
+            <div>
+              <span className="font-medium text-gray-700">Group Category:</span>
+              <span className="ml-2 text-gray-900">{match.genConsumableRecord.category}</span>
+            </div>
+            <div>
+              <span className="font-medium text-gray-700">Initial Quantity:</span>
+              <span className="ml-2 text-gray-900">{match.genConsumableRecord.quantity}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Attribute Conflicts */}
+      {match.attributeConflicts.length > 0 && (
+        <div className="mt-4 bg-red-50 rounded-lg p-4 border-2 border-red-200">
+          <h3 className="font-semibold text-red-900 mb-2 flex items-center gap-2">
+            <span>⚠️</span> Attribute Conflicts ({match.attributeConflicts.length})
+          </h3>
+          <div className="space-y-1 text-sm">
+            {match.attributeConflicts.map(conflict => (
+              <div key={conflict.attribute} className="flex flex-wrap gap-2">
+                <span className="font-medium text-gray-700 w-28">{conflict.label}:</span>
+                <span className="bg-blue-100 text-blue-800 px-2 py-0.5 rounded text-xs font-medium">
+                  {conflict.itemMasterValue}
+                </span>
+                <span className="text-gray-500 text-xs">vs</span>
+                <span className="bg-purple-100 text-purple-800 px-2 py-0.5 rounded text-xs font-medium">
+                  {conflict.genConsumableValue}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Unit of Measure */}
+      <div className={`mt-4 rounded-lg px-4 py-3 border text-sm ${UOM_STATUS_STYLES[match.uomCompatibility.status]}`}>
+        <span className="font-semibold">📏 {UOM_STATUS_LABELS[match.uomCompatibility.status]}:</span>
+        <span className="ml-2">{match.uomCompatibility.note}</span>
+        {convertQuantity(match.genConsumableRecord.quantity, match.uomCompatibility) !== null && (
+          <span className="ml-2">
+            · Tender {match.genConsumableRecord.quantity} {match.uomCompatibility.genConsumableUnit} → bid{' '}
+            <span className="font-semibold">
+              {convertQuantity(match.genConsumableRecord.quantity, match.uomCompatibility)?.toLocaleString()}{' '}
+              {match.uomCompatibility.itemMasterUnit}
+            </span>
+          </span>
+        )}
+      </div>
+
+      {/* Differences Section */}
+      <div className="mt-4 bg-gradient-to-r from-amber-50 to-orange-50 rounded-lg p-4 border-2 border-amber-200">
+        <h3 className="font-semibold text-amber-900 mb-3 flex items-center">
+          <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" />
+          </svg>
+          Description Differences Analysis
+        </h3>
+
+        {/* Words matched through the synonym dictionary */}
+        {match.synonymMatches.length > 0 && (
+          <div className="mb-3 bg-white rounded-lg p-3 border border-green-200 text-sm">
+            <div className="flex items-center gap-2 mb-2">
+              <span className="text-lg">🔁</span>
+              <span className="font-semibold text-green-700">Matched via synonyms ({match.synonymMatches.length})</span>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {match.synonymMatches.map(synonymMatch => (
+                <span key={synonymMatch.term} className="bg-green-100 text-green-800 px-2 py-0.5 rounded text-xs font-medium">
+                  {synonymMatch.itemMasterText} ↔ {synonymMatch.genConsumableText}
+                  {synonymMatch.term !== synonymMatch.genConsumableText && synonymMatch.term !== synonymMatch.itemMasterText && (
+                    <span className="text-green-600"> ({synonymMatch.term})</span>
+                  )}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        {/* Both descriptions in order, token by token */}
+        <div className="space-y-2 text-sm">
+          <div className="bg-white rounded-lg p-3 border border-blue-200">
+            <span className="font-semibold text-blue-700 mr-2">Item Master:</span>
+            <AlignedDescription segments={match.differences.alignment.itemMaster} />
+          </div>
+          <div className="bg-white rounded-lg p-3 border border-purple-200">
+            <span className="font-semibold text-purple-700 mr-2">Tender:</span>
+            <AlignedDescription segments={match.differences.alignment.genConsumable} />
+          </div>
+        </div>
+
+        {match.differences.alignment.numberMismatches.length > 0 && (
+          <div className="mt-3 bg-white rounded-lg p-3 border border-red-200 text-sm">
+            <div className="flex items-center gap-2 mb-2">
+              <span className="text-lg">🔢</span>
+              <span className="font-semibold text-red-700">
+                Numbers differ ({match.differences.alignment.numberMismatches.length})
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {match.differences.alignment.numberMismatches.map((mismatch, idx) => (
+                <span key={idx} className="bg-red-100 text-red-800 px-2 py-0.5 rounded text-xs font-medium">
+                  {mismatch.itemMaster} ↔ {mismatch.genConsumable}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-3 flex flex-wrap gap-3 text-xs text-gray-600">
+          <span><span className={DIFF_SEGMENT_STYLES.deleted}>word</span> only in Item Master</span>
+          <span><span className={DIFF_SEGMENT_STYLES.inserted}>word</span> only in tender</span>
+          <span><span className={DIFF_SEGMENT_STYLES.numberMismatch}>5</span> different number</span>
+        </div>
+
+        {/* Summary Stats */}
+        <div className="mt-3 pt-3 border-t border-amber-200 flex flex-wrap gap-4 text-xs text-gray-600">
+          <div>
+            <span className="font-medium">Match Accuracy:</span> {match.differences.commonWords.length > 0 
+              ? Math.round((match.differences.commonWords.length / Math.max(match.differences.itemMasterWordCount, match.differences.genConsumableWordCount)) * 100)
+              : 0}% of words match
+          </div>
+        </div>
+      </div>
+
+      <MatchReviewPanel
+        decision={decision}
+        itemRecords={itemRecords}
+        onStatusChange={onStatusChange}
+        onNoteChange={onNoteChange}
+        onLinkItem={onLinkItem}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+'use client';
+
+import { ReactNode, useMemo, useRef, useState } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { parseLocaleNumber } from '@/utils/fileParser';
+import { MatchResult } from '@/utils/matcher';
+import { getMatchQuality, MatchQuality } from '@/utils/pricing';
+import { getReviewKey, ReviewDecision, REVIEW_STATUSES } from '@/utils/reviewStore';
+
+interface MatchResultsGridProps {
+  matches: MatchResult[]; // in ranking order
+  getReview: (match: MatchResult) => ReviewDecision | undefined;
+  getProbability: (match: MatchResult) => number | null;
+  renderDetails: (match: MatchResult) => ReactNode;
+}
+
+type ColumnId =
+  | 'matchPercentage'
+  | 'itemCode'
+  | 'itemDescription'
+  | 'nupcoCode'
+  | 'tenderDescription'
+  | 'itemUom'
+  | 'tenderUom'
+  | 'businessUnit'
+  | 'quantity'
+  | 'status';
+
+type SortValue = string | number | null;
+
+interface ResultColumn {
+  id: ColumnId;
+  label: string;
+  width: number; // rem; the minimum when the column grows
+  grow?: number; // share of the spare width
+  numeric?: boolean; // right-aligned, sorted largest first
+  sortValue?: (match: MatchResult) => SortValue;
+}
+
+interface GridRow {
+  key: string;
+  rank: number; // position in ranking order, kept when sorting by a column
+  match: MatchResult;
+}
+
+interface SortState {
+  column: ColumnId;
+  descending: boolean;
+}
+
+const ROW_HEIGHT = 56;
+const EXPANDED_ROW_ESTIMATE = 760;
+const RANK_COLUMN_WIDTH = 4.5;
+
+const COLUMNS: ResultColumn[] = [
+  { id: 'matchPercentage', label: 'Match %', width: 5.5, numeric: true, sortValue: m => m.matchPercentage },
+  { id: 'itemCode', label: 'Item Code', width: 8, sortValue: m => m.itemMasterRecord.code },
+  { id: 'itemDescription', label: 'Item Description', width: 14, grow: 2, sortValue: m => m.itemMasterDescription },
+  { id: 'nupcoCode', label: 'NUPCO Code', width: 9, sortValue: m => m.genConsumableRecord.code },
+  { id: 'tenderDescription', label: 'Tender Description', width: 14, grow: 2, sortValue: m => m.genConsumableDescription },
+  { id: 'itemUom', label: 'Item UOM', width: 6, sortValue: m => m.itemMasterRecord.uom },
+  { id: 'tenderUom', label: 'Tender UOM', width: 6.5, sortValue: m => m.genConsumableRecord.uom },
+  { id: 'businessUnit', label: 'Business Unit', width: 9, grow: 1, sortValue: m => m.itemMasterRecord.category },
+  {
+    id: 'quantity',
+    label: 'Quantity',
+    width: 6.5,
+    numeric: true,
+    sortValue: m => parseLocaleNumber(m.genConsumableRecord.quantity),
+  },
+  { id: 'status', label: 'Status', width: 9 },
+];
+
+const QUALITY_STYLES: Record<MatchQuality, string> = {
+  excellent: 'bg-green-100 text-green-800 border-green-300',
+  good: 'bg-blue-100 text-blue-800 border-blue-300',
+  fair: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  poor: 'bg-red-100 text-red-800 border-red-300',
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const isEmpty = (value: SortValue): boolean => value === null || value === '';
+
+// Stable, so rows with equal values keep their ranking order; empty values always go last
+const sortRows = (rows: GridRow[], { sortValue }: ResultColumn, descending: boolean): GridRow[] => {
+  if (!sortValue) return rows;
+  const keyed = rows.map(row => ({ row, value: sortValue(row.match) }));
+  keyed.sort((a, b) => {
+    if (isEmpty(a.value) || isEmpty(b.value)) return Number(isEmpty(a.value)) - Number(isEmpty(b.value));
+    const order = typeof a.value === 'number' && typeof b.value === 'number'
+      ? a.value - b.value
+      : collator.compare(String(a.value), String(b.value));
+    return descending ? -order : order;
+  });
+  return keyed.map(({ row }) => row);
+};
+
+/**
+ * All matches as a virtualized grid: sortable and hideable columns, and rows that
+ * expand into the full match details
+ */
+export default function MatchResultsGrid({ matches, getReview, getProbability, renderDetails }: MatchResultsGridProps) {
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [hiddenColumns, setHiddenColumns] = useState<Set<ColumnId>>(new Set());
+  const [expandedKeys, setExpandedKeys] = useState<Set<string>>(new Set());
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Codes can repeat across rows, so duplicates are told apart by occurrence
+  const rows = useMemo(() => {
+    const seen = new Map<string, number>();
+    return matches.map((match, idx): GridRow => {
+      const pairKey = getReviewKey(match.genConsumableRecord.code, match.itemMasterRecord.code);
+      const occurrence = seen.get(pairKey) ?? 0;
+      seen.set(pairKey, occurrence + 1);
+      return { key: `${pairKey}#${occurrence}`, rank: idx + 1, match };
+    });
+  }, [matches]);
+
+  const sortedRows = useMemo(() => {
+    const column = sort && COLUMNS.find(c => c.id === sort.column);
+    return column ? sortRows(rows, column, sort.descending) : rows;
+  }, [rows, sort]);
+
+  const visibleColumns = COLUMNS.filter(column => !hiddenColumns.has(column.id));
+  const gridTemplateColumns = [
+    `${RANK_COLUMN_WIDTH}rem`,
+    ...visibleColumns.map(({ width, grow }) => (grow ? `minmax(${width}rem, ${grow}fr)` : `${width}rem`)),
+  ].join(' ');
+  const minWidth = `${visibleColumns.reduce((sum, column) => sum + column.width, RANK_COLUMN_WIDTH)}rem`;
+
+  const virtualizer = useVirtualizer({
+    count: sortedRows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: index => (expandedKeys.has(sortedRows[index].key) ? EXPANDED_ROW_ESTIMATE : ROW_HEIGHT),
+    getItemKey: index => sortedRows[index].key,
+    overscan: 8,
+  });
+
+  // First click sorts in the column's natural direction, the second reverses it, the third restores the ranking
+  const handleSort = (column: ResultColumn) => {
+    if (!column.sortValue) return;
+    const firstDescending = !!column.numeric;
+    if (sort?.column !== column.id) setSort({ column: column.id, descending: firstDescending });
+    else if (sort.descending === firstDescending) setSort({ column: column.id, descending: !firstDescending });
+    else setSort(null);
+  };
+
+  const toggleColumn = (id: ColumnId) => {
+    const next = new Set(hiddenColumns);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setHiddenColumns(next);
+  };
+
+  const toggleExpanded = (key: string) => {
+    const next = new Set(expandedKeys);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setExpandedKeys(next);
+  };
+
+  const renderCell = (id: ColumnId, match: MatchResult): ReactNode => {
+    switch (id) {
+      case 'matchPercentage':
+        return (
+          <span className={`px-2 py-0.5 rounded-full font-bold border ${QUALITY_STYLES[getMatchQuality(match.matchPercentage)]}`}>
+            {match.matchPercentage}%
+          </span>
+        );
+      case 'itemCode':
+        return <span className="font-mono text-xs text-blue-900">{match.itemMasterRecord.code}</span>;
+      case 'itemDescription':
+        return <span className="line-clamp-2" title={match.itemMasterDescription}>{match.itemMasterDescription}</span>;
+      case 'nupcoCode':
+        return <span className="font-mono text-xs text-purple-900">{match.genConsumableRecord.code}</span>;
+      case 'tenderDescription':
+        return <span className="line-clamp-2" title={match.genConsumableDescription}>{match.genConsumableDescription}</span>;
+      case 'itemUom':
+        return match.itemMasterRecord.uom;
+      case 'tenderUom':
+        return match.genConsumableRecord.uom;
+      case 'businessUnit':
+        return <span className="line-clamp-2">{match.itemMasterRecord.category}</span>;
+      case 'quantity':
+        return match.genConsumableRecord.quantity;
+      case 'status': {
+        const status = getReview(match)?.status;
+        const probability = getProbability(match);
+        return (
+          <span className="flex items-center gap-1.5 text-xs">
+            {status && (
+              <span title={REVIEW_STATUSES.find(s => s.id === status)?.label}>
+                {REVIEW_STATUSES.find(s => s.id === status)?.icon}
+              </span>
+            )}
+            {match.uomCompatibility.status === 'incompatible' && <span title={match.uomCompatibility.note}>⚠️</span>}
+            {match.attributeConflicts.length > 0 && (
+              <span
+                title={match.attributeConflicts.map(c => `${c.label}: ${c.itemMasterValue} vs ${c.genConsumableValue}`).join('\n')}
+                className="bg-red-100 text-red-800 px-1.5 rounded font-medium"
+              >
+                ≠{match.attributeConflicts.length}
+              </span>
+            )}
+            {probability !== null && (
+              <span title="Learned probability of a correct match" className="text-purple-800">🧠{probability}%</span>
+            )}
+          </span>
+        );
+      }
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2 flex-wrap gap-2 text-sm">
+        <p className="text-gray-600">
+          Click a row for the full comparison and review controls. Click a column header to sort
+          {sort && (
+            <>
+              {' · '}
+              <button onClick={() => setSort(null)} className="text-blue-600 hover:text-blue-700 font-medium">
+                Back to ranking order
+              </button>
+            </>
+          )}
+        </p>
+        <details className="relative">
+          <summary className="cursor-pointer px-3 py-1.5 bg-white border border-gray-300 rounded-lg hover:bg-gray-100">
+            Columns ({visibleColumns.length}/{COLUMNS.length})
+          </summary>
+          <div className="absolute right-0 z-20 mt-1 w-56 bg-white border border-gray-200 rounded-lg shadow-lg p-2 space-y-1">
+            {COLUMNS.map(column => (
+              <label key={column.id} className="flex items-center gap-2 px-2 py-1 rounded hover:bg-gray-50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!hiddenColumns.has(column.id)}
+                  onChange={() => toggleColumn(column.id)}
+                />
+                {column.label}
+              </label>
+            ))}
+          </div>
+        </details>
+      </div>
+
+      <div ref={scrollRef} className="h-[70vh] overflow-auto border border-gray-200 rounded-lg">
+        <div style={{ minWidth }}>
+          <div
+            className="grid sticky top-0 z-10 bg-gray-50 border-b border-gray-200 text-left text-xs font-semibold text-gray-700"
+            style={{ gridTemplateColumns }}
+          >
+            <div className="px-3 py-2">#</div>
+            {visibleColumns.map(column => (
+              <button
+                key={column.id}
+                onClick={() => handleSort(column)}
+                disabled={!column.sortValue}
+                className={`px-3 py-2 flex items-center gap-1 ${column.numeric ? 'justify-end' : ''} ${
+                  column.sortValue ? 'hover:bg-gray-100' : 'cursor-default'
+                }`}
+              >
+                {column.label}
+                {sort?.column === column.id && <span>{sort.descending ? '▼' : '▲'}</span>}
+              </button>
+            ))}
+          </div>
+
+          <div className="relative" style={{ height: virtualizer.getTotalSize() }}>
+            {virtualizer.getVirtualItems().map(item => {
+              const row = sortedRows[item.index];
+              const expanded = expandedKeys.has(row.key);
+              return (
+                <div
+                  key={item.key}
+                  data-index={item.index}
+                  ref={virtualizer.measureElement}
+                  className="absolute left-0 w-full border-b border-gray-200"
+                  style={{ transform: `translateY(${item.start}px)` }}
+                >
+                  <div
+                    onClick={() => toggleExpanded(row.key)}
+                    className={`grid items-center text-sm text-gray-900 cursor-pointer hover:bg-blue-50 ${expanded ? 'bg-blue-50' : ''}`}
+                    style={{ gridTemplateColumns, height: ROW_HEIGHT }}
+                  >
+                    <div className="px-3 text-gray-500 whitespace-nowrap">
+                      <button aria-expanded={expanded} className="mr-1 text-gray-700">{expanded ? '▾' : '▸'}</button>
+                      {row.rank}
+                    </div>
+                    {visibleColumns.map(column => (
+                      <div key={column.id} className={`px-3 min-w-0 ${column.numeric ? 'text-right' : ''}`}>
+                        {renderCell(column.id, row.match)}
+                      </div>
+                    ))}
+                  </div>
+                  {expanded && <div className="border-t border-gray-200 bg-white">{renderDetails(row.match)}</div>}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
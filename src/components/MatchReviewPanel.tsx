@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { ItemMasterRow } from '@/utils/fileParser';
+import { MatchRecord } from '@/utils/columnMapping';
+import { REVIEW_STATUSES, ReviewDecision, ReviewStatus } from '@/utils/reviewStore';
+
+interface MatchReviewPanelProps {
+  decision?: ReviewDecision;
+  itemRecords: MatchRecord<ItemMasterRow>[];
+  onStatusChange: (status: ReviewStatus | null) => void;
+  onNoteChange: (note: string) => void;
+  onLinkItem: (item: MatchRecord<ItemMasterRow>) => void;
+}
+
+const MAX_SEARCH_RESULTS = 10;
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  confirmed: 'bg-green-600 text-white border-green-600',
+  rejected: 'bg-red-600 text-white border-red-600',
+  needsReview: 'bg-amber-500 text-white border-amber-500',
+};
+
+/**
+ * Review controls of a match card: status, note and linking a different Item Master product
+ */
+export default function MatchReviewPanel({
+  decision,
+  itemRecords,
+  onStatusChange,
+  onNoteChange,
+  onLinkItem,
+}: MatchReviewPanelProps) {
+  const [note, setNote] = useState(decision?.note ?? '');
+  const [linking, setLinking] = useState(false);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => setNote(decision?.note ?? ''), [decision?.note]);
+
+  const searchResults = useMemo(() => {
+    const term = query.trim().toLowerCase();
+    if (term.length < 2) return [];
+    return itemRecords
+      .filter(item => item.code.toLowerCase().includes(term) || item.description.toLowerCase().includes(term))
+      .slice(0, MAX_SEARCH_RESULTS);
+  }, [itemRecords, query]);
+
+  const status = decision?.status ?? null;
+
+  return (
+    <div className="mt-4 bg-gray-50 rounded-lg p-4 border border-gray-200">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-sm font-semibold text-gray-700 mr-1">Review:</span>
+        {REVIEW_STATUSES.map(({ id, label, icon }) => (
+          <button
+            key={id}
+            onClick={() => onStatusChange(status === id ? null : id)}
+            className={`px-3 py-1 rounded-lg text-sm font-medium border transition-colors ${
+              status === id ? STATUS_STYLES[id] : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+            }`}
+          >
+            {icon} {label}
+          </button>
+        ))}
+        <button
+          onClick={() => setLinking(!linking)}
+          className="px-3 py-1 rounded-lg text-sm font-medium border bg-white text-gray-700 border-gray-300 hover:bg-gray-100 transition-colors"
+        >
+          🔗 Link Different Item
+        </button>
+        {decision?.manual && (
+          <span className="text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded font-medium">Linked manually</span>
+        )}
+      </div>
+
+      {linking && (
+        <div className="mt-3">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search Item Master by code or description..."
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            autoFocus
+          />
+          {searchResults.length > 0 && (
+            <ul className="mt-1 bg-white border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-56 overflow-y-auto">
+              {searchResults.map((item, idx) => (
+                <li key={idx}>
+                  <button
+                    onClick={() => {
+                      onLinkItem(item);
+                      setLinking(false);
+                      setQuery('');
+                    }}
+                    className="w-full text-left px-3 py-2 text-sm hover:bg-blue-50"
+                  >
+                    <span className="font-mono text-xs text-blue-800">{item.code}</span>
+                    <span className="ml-2 text-gray-700">{item.description}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {query.trim().length >= 2 && searchResults.length === 0 && (
+            <p className="text-xs text-gray-500 mt-1">No Item Master products match &quot;{query}&quot;</p>
+          )}
+        </div>
+      )}
+
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        onBlur={() => note !== (decision?.note ?? '') && onNoteChange(note)}
+        placeholder="Add a note..."
+        rows={2}
+        className="mt-3 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { MIN_SAMPLES_PER_CLASS, RerankerModel } from '@/utils/reranker';
+
+interface RerankerPanelProps {
+  model: RerankerModel | null;
+  enabled: boolean;
+  confirmedCount: number;
+  rejectedCount: number;
+  onTrain: () => void;
+  onToggle: (enabled: boolean) => void;
+  onReset: () => void;
+}
+
+/**
+ * Training controls of the learned re-ranking model
+ */
+export default function RerankerPanel({
+  model,
+  enabled,
+  confirmedCount,
+  rejectedCount,
+  onTrain,
+  onToggle,
+  onReset,
+}: RerankerPanelProps) {
+  const canTrain = confirmedCount >= MIN_SAMPLES_PER_CLASS && rejectedCount >= MIN_SAMPLES_PER_CLASS;
+
+  return (
+    <details className="bg-gray-50 border border-gray-200 rounded-lg px-4 py-3 mb-4">
+      <summary className="cursor-pointer text-sm font-medium text-gray-700">
+        🧠 Learned Re-ranking {model ? (enabled ? '(on)' : '(off)') : '(not trained)'}
+      </summary>
+      <p className="text-xs text-gray-500 mt-2 mb-3">
+        Learns from your confirmed and rejected pairs which scores, attribute and UOM agreement and business
+        units make a correct match, then ranks matches by that probability. Training runs in the browser.
+      </p>
+
+      <p className="text-sm text-gray-700">
+        Labeled pairs: <span className="font-semibold text-green-700">{confirmedCount} confirmed</span>,{' '}
+        <span className="font-semibold text-red-700">{rejectedCount} rejected</span>
+      </p>
+      {model && (
+        <p className="text-sm text-gray-700 mt-1">
+          Trained on {model.sampleCount} pairs ({model.positiveCount} confirmed) at{' '}
+          {new Date(model.trainedAt).toLocaleString()} · training accuracy {model.accuracy}%
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2 mt-3 items-center">
+        <button
+          onClick={onTrain}
+          disabled={!canTrain}
+          className="px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-sm hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {model ? '🔁 Retrain' : '🎓 Train'}
+        </button>
+        {model && (
+          <>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={enabled} onChange={(e) => onToggle(e.target.checked)} />
+              Rank matches by learned probability
+            </label>
+            <button
+              onClick={onReset}
+              className="px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-sm hover:bg-gray-100 transition-colors"
+            >
+              🗑️ Discard Model
+            </button>
+          </>
+        )}
+      </div>
+      {!canTrain && (
+        <p className="text-xs text-gray-500 mt-2">
+          Review at least {MIN_SAMPLES_PER_CLASS} confirmed and {MIN_SAMPLES_PER_CLASS} rejected pairs to train.
+        </p>
+      )}
+    </details>
+  );
+}
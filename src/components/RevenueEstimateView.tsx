@@ -0,0 +1,255 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { MatchResult } from '@/utils/matcher';
+import {
+  estimateBidLines,
+  getMatchQuality,
+  parsePriceListCsv,
+  rollUpBidValue,
+  BidValueRollup,
+  PriceList,
+  MATCH_QUALITY_LABELS,
+} from '@/utils/pricing';
+import { getTenderLineKey } from '@/utils/reviewStore';
+
+interface RevenueEstimateViewProps {
+  matches: MatchResult[];
+  prices: PriceList;
+  onPricesChange: (prices: PriceList) => void;
+}
+
+const MAX_LISTED_ROWS = 200;
+
+const formatValue = (value: number): string => {
+  return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+};
+
+interface PriceInputProps {
+  price: number | null;
+  onCommit: (price: number | null) => void;
+}
+
+// Commits on blur so the estimates are not recomputed on every keystroke
+function PriceInput({ price, onCommit }: PriceInputProps) {
+  const [text, setText] = useState(price === null ? '' : String(price));
+
+  useEffect(() => setText(price === null ? '' : String(price)), [price]);
+
+  return (
+    <input
+      type="number"
+      min={0}
+      step="0.01"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => {
+        const parsed = text.trim() === '' ? null : Number(text);
+        if (parsed !== price && (parsed === null || (Number.isFinite(parsed) && parsed >= 0))) onCommit(parsed);
+      }}
+      placeholder="Price"
+      className="w-24 px-2 py-1 border border-gray-300 rounded text-sm text-right focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+    />
+  );
+}
+
+function RollupTable({ title, rollups }: { title: string; rollups: BidValueRollup[] }) {
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold text-gray-800 mb-3">{title}</h3>
+      <div className="max-h-72 overflow-y-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr className="text-left text-gray-700">
+              <th className="px-3 py-2 font-semibold">Group</th>
+              <th className="px-3 py-2 font-semibold text-right">Lines</th>
+              <th className="px-3 py-2 font-semibold text-right">Est. Value</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {rollups.map(rollup => (
+              <tr key={rollup.key} className="hover:bg-gray-50">
+                <td className="px-3 py-2 text-gray-900">{rollup.key}</td>
+                <td className="px-3 py-2 text-right text-gray-700">
+                  {rollup.pricedLineCount}/{rollup.lineCount}
+                </td>
+                <td className="px-3 py-2 text-right font-semibold text-gray-900">{formatValue(rollup.value)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Estimated bid value of the matched tender lines from tender quantities and our unit prices
+ */
+export default function RevenueEstimateView({ matches, prices, onPricesChange }: RevenueEstimateViewProps) {
+  const [importError, setImportError] = useState('');
+
+  const estimates = useMemo(() => {
+    // Unpriced lines follow, largest tender quantity first
+    return estimateBidLines(matches, prices).sort((a, b) => (
+      (b.value ?? -1) - (a.value ?? -1) || (b.tenderQuantity ?? 0) - (a.tenderQuantity ?? 0)
+    ));
+  }, [matches, prices]);
+
+  const rollups = useMemo(() => ({
+    businessUnit: rollUpBidValue(estimates, e => e.match.itemMasterRecord.category),
+    manufacturer: rollUpBidValue(estimates, e => e.match.itemMasterRecord.manufacturer),
+    quality: rollUpBidValue(estimates, e => MATCH_QUALITY_LABELS[getMatchQuality(e.match.matchPercentage)]),
+  }), [estimates]);
+
+  const totalValue = estimates.reduce((sum, e) => sum + (e.value ?? 0), 0);
+  const pricedCount = estimates.filter(e => e.value !== null).length;
+  const missingPriceCount = estimates.filter(e => e.unitPrice === null).length;
+  const unitCheckCount = estimates.filter(e => e.bidQuantity === null && e.tenderQuantity !== null).length;
+
+  const handlePriceChange = (itemCode: string, price: number | null) => {
+    const next = { ...prices };
+    if (price === null) delete next[itemCode];
+    else next[itemCode] = price;
+    onPricesChange(next);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = await parsePriceListCsv(await file.text(), file.name);
+      onPricesChange({ ...prices, ...imported });
+      setImportError('');
+      console.log(`Imported ${Object.keys(imported).length} prices from ${file.name}`);
+    } catch (error) {
+      console.error('Error importing price list:', error);
+      setImportError(error instanceof Error ? error.message : 'Could not read the price list.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-lg shadow-md p-6 border-l-4 border-green-500">
+          <p className="text-sm font-medium text-gray-600">Estimated Bid Value</p>
+          <p className="text-3xl font-bold text-gray-900 mt-2">{formatValue(totalValue)}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-6 border-l-4 border-blue-500">
+          <p className="text-sm font-medium text-gray-600">Priced Tender Lines</p>
+          <p className="text-3xl font-bold text-gray-900 mt-2">
+            {pricedCount.toLocaleString()}
+            <span className="text-base font-medium text-gray-500"> / {estimates.length.toLocaleString()}</span>
+          </p>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-6 border-l-4 border-amber-500">
+          <p className="text-sm font-medium text-gray-600">Missing Unit Price</p>
+          <p className="text-3xl font-bold text-gray-900 mt-2">{missingPriceCount.toLocaleString()}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-6 border-l-4 border-red-500">
+          <p className="text-sm font-medium text-gray-600">Need Unit Check</p>
+          <p className="text-3xl font-bold text-gray-900 mt-2">{unitCheckCount.toLocaleString()}</p>
+          <p className="text-xs text-gray-500 mt-1">Tender unit cannot be converted into ours</p>
+        </div>
+      </div>
+
+      {/* Roll-ups */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <RollupTable title="By Business Unit" rollups={rollups.businessUnit} />
+        <RollupTable title="By Manufacturer" rollups={rollups.manufacturer} />
+        <RollupTable title="By Match Quality" rollups={rollups.quality} />
+      </div>
+
+      {/* Per-tender-line estimates */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex justify-between items-center mb-4 flex-wrap gap-4">
+          <h2 className="text-2xl font-semibold text-gray-800 flex items-center gap-2">
+            <span>💰</span> Bid Value by Tender Line
+          </h2>
+          <label className="px-4 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-100 transition-colors cursor-pointer">
+            📥 Import Price List CSV
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Each tender line is valued with its top match (confirmed pairs first, rejected pairs excluded).
+          Prices are per Item Master selling unit; a price list needs Item Code and Price columns.
+        </p>
+        {importError && <p className="text-sm text-red-600 mb-4">{importError}</p>}
+
+        <div className="overflow-x-auto max-h-[32rem] overflow-y-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr className="text-left text-gray-700">
+                <th className="px-4 py-2 font-semibold">NUPCO Code</th>
+                <th className="px-4 py-2 font-semibold">Tender Qty</th>
+                <th className="px-4 py-2 font-semibold">Our Item</th>
+                <th className="px-4 py-2 font-semibold text-right">Match</th>
+                <th className="px-4 py-2 font-semibold text-right">Bid Qty</th>
+                <th className="px-4 py-2 font-semibold text-right">Unit Price</th>
+                <th className="px-4 py-2 font-semibold text-right">Est. Value</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {estimates.slice(0, MAX_LISTED_ROWS).map(({ match, bidQuantity, unitPrice, value }) => (
+                <tr
+                  key={getTenderLineKey(match.genConsumableRecord.code, match.genConsumableRecord.lineNumber)}
+                  className="align-top hover:bg-gray-50"
+                >
+                  <td className="px-4 py-2">
+                    <div className="font-mono text-xs text-gray-900">
+                      {match.genConsumableRecord.code}
+                      {match.genConsumableRecord.lineNumber && (
+                        <span className="ml-1 text-gray-500">SN {match.genConsumableRecord.lineNumber}</span>
+                      )}
+                    </div>
+                    <div className="text-gray-700 max-w-xs">{match.genConsumableDescription}</div>
+                  </td>
+                  <td className="px-4 py-2 text-gray-700 whitespace-nowrap">
+                    {match.genConsumableRecord.quantity} {match.genConsumableRecord.uom}
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="font-mono text-xs text-blue-800">{match.itemMasterRecord.code}</div>
+                    <div className="text-gray-700 max-w-xs">{match.itemMasterDescription}</div>
+                  </td>
+                  <td className="px-4 py-2 text-right font-semibold text-gray-900">{match.matchPercentage}%</td>
+                  <td className="px-4 py-2 text-right whitespace-nowrap">
+                    {bidQuantity !== null ? (
+                      <span className="text-gray-900">
+                        {bidQuantity.toLocaleString()} {match.uomCompatibility.itemMasterUnit}
+                      </span>
+                    ) : (
+                      <span className="text-amber-700 text-xs" title={match.uomCompatibility.note}>Check unit</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <PriceInput
+                      price={unitPrice}
+                      onCommit={(price) => handlePriceChange(match.itemMasterRecord.code, price)}
+                    />
+                  </td>
+                  <td className="px-4 py-2 text-right font-semibold text-gray-900">
+                    {value !== null ? formatValue(value) : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {estimates.length > MAX_LISTED_ROWS && (
+          <p className="text-xs text-gray-500 mt-2">
+            Showing the {MAX_LISTED_ROWS} most valuable of {estimates.length} lines
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
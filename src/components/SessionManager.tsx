@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import { MatchSession, MatchSessionSummary, parseSessionJson } from '@/utils/sessionStore';
+
+interface SessionManagerProps {
+  sessions: MatchSessionSummary[];
+  activeSessionId: string | null;
+  defaultName: string; // proposed name for a new session; empty when there is no run to save
+  open?: boolean;
+  onSave?: (name: string) => Promise<void>;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  onImport: (session: MatchSession) => Promise<void>;
+}
+
+const shortHash = (hash: string): string => hash.slice(hash.indexOf(':') + 1, hash.indexOf(':') + 9);
+
+/**
+ * Saved match runs: save the current run, reopen or delete one, and share them as JSON
+ */
+export default function SessionManager({
+  sessions,
+  activeSessionId,
+  defaultName,
+  open,
+  onSave,
+  onOpen,
+  onDelete,
+  onExport,
+  onImport,
+}: SessionManagerProps) {
+  const activeSession = sessions.find(session => session.id === activeSessionId);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  // Saving under another name keeps the open session and adds a new one
+  const updatesActive = !!activeSession && (!name.trim() || name.trim() === activeSession.name);
+
+  const handleSave = async () => {
+    if (!onSave) return;
+    setSaving(true);
+    try {
+      await onSave(name.trim() || activeSession?.name || defaultName);
+      setName('');
+      setError('');
+    } catch (err) {
+      console.error('Error saving session:', err);
+      setError('Could not save the session. The browser may be out of storage space.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      await onImport(parseSessionJson(await file.text()));
+      setError('');
+    } catch (err) {
+      console.error('Error importing session:', err);
+      setError(err instanceof Error ? err.message : 'Could not read the session file.');
+    }
+  };
+
+  return (
+    <details open={open} className="bg-gray-50 border border-gray-200 rounded-lg px-4 py-3 mb-4">
+      <summary className="cursor-pointer text-sm font-medium text-gray-700">
+        🗂️ Saved Sessions ({sessions.length}){activeSession && ` · ${activeSession.name}`}
+      </summary>
+      <p className="text-xs text-gray-500 mt-2 mb-3">
+        A session keeps both input files, their column mappings, the matcher settings, every candidate pair,
+        your filters and reviews, so it reopens without matching again. Export a session to share it offline.
+      </p>
+
+      {onSave && defaultName && (
+        <div className="flex flex-wrap gap-2 items-center mb-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={activeSession?.name ?? defaultName}
+            className="flex-1 min-w-48 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-sm hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : updatesActive ? '💾 Update Session' : '💾 Save Session'}
+          </button>
+        </div>
+      )}
+
+      {sessions.length > 0 && (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg bg-white max-h-72 overflow-y-auto">
+          {sessions.map(session => (
+            <li key={session.id} className="px-3 py-2 flex items-center justify-between gap-3 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">
+                  {session.name}
+                  {session.id === activeSessionId && <span className="ml-2 text-xs text-blue-600">(open)</span>}
+                </p>
+                <p className="text-xs text-gray-500 truncate">
+                  {session.itemMaster.fileName} <span className="font-mono">#{shortHash(session.itemMaster.hash)}</span>
+                  {' × '}
+                  {session.genConsumable.fileName} <span className="font-mono">#{shortHash(session.genConsumable.hash)}</span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {session.pairCount.toLocaleString()} candidate pairs · {session.reviewCount} reviews · saved{' '}
+                  {new Date(session.updatedAt).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <button onClick={() => onOpen(session.id)} className="text-blue-600 hover:text-blue-700 font-medium">
+                  Open
+                </button>
+                <button onClick={() => onExport(session.id)} className="text-gray-600 hover:text-gray-800 font-medium">
+                  Export
+                </button>
+                <button
+                  onClick={() => window.confirm(`Delete the session "${session.name}"?`) && onDelete(session.id)}
+                  className="text-red-600 hover:text-red-700 font-medium"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        <label className="px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-sm hover:bg-gray-100 transition-colors cursor-pointer">
+          📥 Import Session JSON
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </details>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import { DEFAULT_SYNONYMS, parseSynonymJson, serializeSynonyms, SynonymEntry } from '@/utils/synonyms';
+
+interface SynonymDictionaryEditorProps {
+  entries: SynonymEntry[];
+  onChange: (entries: SynonymEntry[]) => void;
+}
+
+export default function SynonymDictionaryEditor({ entries, onChange }: SynonymDictionaryEditorProps) {
+  const [importError, setImportError] = useState('');
+
+  const updateEntry = (index: number, entry: SynonymEntry) => {
+    onChange(entries.map((existing, idx) => (idx === index ? entry : existing)));
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      onChange(parseSynonymJson(await file.text()));
+      setImportError('');
+    } catch (error) {
+      console.error('Error importing synonym dictionary:', error);
+      setImportError(error instanceof Error ? error.message : 'Could not read the dictionary file.');
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeSynonyms(entries)], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'synonym-dictionary.json';
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  return (
+    <details className="bg-gray-50 border border-gray-200 rounded-lg px-4 py-3 mb-4">
+      <summary className="cursor-pointer text-sm font-medium text-gray-700">
+        📖 Synonym Dictionary ({entries.length} terms)
+      </summary>
+      <p className="text-xs text-gray-500 mt-2 mb-3">
+        Abbreviations are replaced by their term before matching (e.g. CATH → catheter, W/ → with).
+        Separate synonyms with commas. Click &quot;Re-Analyze&quot; to apply changes.
+      </p>
+
+      <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+        {entries.map((entry, idx) => (
+          <div key={idx} className="flex gap-2 items-center">
+            <input
+              type="text"
+              value={entry.term}
+              onChange={(e) => updateEntry(idx, { ...entry, term: e.target.value })}
+              placeholder="Term"
+              className="w-40 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <input
+              type="text"
+              value={entry.synonyms.join(',')}
+              onChange={(e) => updateEntry(idx, { ...entry, synonyms: e.target.value.split(',') })}
+              placeholder="Synonyms, comma separated"
+              className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              onClick={() => onChange(entries.filter((_, i) => i !== idx))}
+              className="text-red-600 hover:text-red-800 text-sm px-2"
+              title="Remove term"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        <button
+          onClick={() => onChange([...entries, { term: '', synonyms: [] }])}
+          className="px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-sm hover:bg-gray-100 transition-colors"
+        >
+          ➕ Add Term
+        </button>
+        <label className="px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-sm hover:bg-gray-100 transition-colors cursor-pointer">
+          📥 Import JSON
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <button
+          onClick={handleExport}
+          className="px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-sm hover:bg-gray-100 transition-colors"
+        >
+          📤 Export JSON
+        </button>
+        <button
+          onClick={() => onChange(DEFAULT_SYNONYMS)}
+          className="px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-sm hover:bg-gray-100 transition-colors"
+        >
+          ↺ Reset to Defaults
+        </button>
+      </div>
+      {importError && <p className="text-xs text-red-600 mt-2">{importError}</p>}
+    </details>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { useMemo } from 'react';
+import { GenConsumableRow } from '@/utils/fileParser';
+import { MatchRecord } from '@/utils/columnMapping';
+import { MatchResult } from '@/utils/matcher';
+
+interface TenderProposalTableProps {
+  matches: MatchResult[];
+  tenderLines: MatchRecord<GenConsumableRow>[];
+  capacity: number;
+}
+
+/**
+ * Result of the one-to-one assignment, one row per tender line in tender order
+ */
+export default function TenderProposalTable({ matches, tenderLines, capacity }: TenderProposalTableProps) {
+  const proposals = useMemo(() => {
+    const byLine = new Map<MatchRecord<GenConsumableRow>, MatchResult[]>();
+    matches.forEach(match => {
+      const proposed = byLine.get(match.genConsumableRecord);
+      if (proposed) proposed.push(match);
+      else byLine.set(match.genConsumableRecord, [match]);
+    });
+    return tenderLines
+      .filter(line => byLine.has(line))
+      .map(line => ({
+        line,
+        proposed: (byLine.get(line) as MatchResult[]).sort((a, b) => b.matchPercentage - a.matchPercentage),
+      }));
+  }, [matches, tenderLines]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex justify-between items-center mb-4 flex-wrap gap-4">
+        <h2 className="text-2xl font-semibold text-gray-800 flex items-center gap-2">
+          <span>📋</span> Tender Line Proposals
+        </h2>
+        <span className="bg-green-100 text-green-800 px-4 py-2 rounded-full font-semibold">
+          {proposals.length.toLocaleString()} of {tenderLines.length.toLocaleString()} lines assigned
+        </span>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Each tender line is assigned up to {capacity} item{capacity === 1 ? '' : 's'} and each Item Master
+        product is proposed for one line at most.
+      </p>
+
+      <div className="overflow-x-auto max-h-[32rem] overflow-y-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr className="text-left text-gray-700">
+              <th className="px-4 py-2 font-semibold">NUPCO Code</th>
+              <th className="px-4 py-2 font-semibold">Tender Description</th>
+              <th className="px-4 py-2 font-semibold">Qty</th>
+              <th className="px-4 py-2 font-semibold">Proposed Item</th>
+              <th className="px-4 py-2 font-semibold text-right">Match</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {proposals.map(({ line, proposed }, idx) => (
+              <tr key={idx} className="align-top hover:bg-gray-50">
+                <td className="px-4 py-2 font-mono text-xs text-gray-900">{line.code}</td>
+                <td className="px-4 py-2 text-gray-900 max-w-md">{line.description}</td>
+                <td className="px-4 py-2 text-gray-700 whitespace-nowrap">
+                  {line.quantity} {line.uom}
+                </td>
+                <td className="px-4 py-2 space-y-1">
+                  {proposed.map((match, rank) => (
+                    <div key={rank}>
+                      <span className="font-mono text-xs text-blue-800">{match.itemMasterRecord.code}</span>
+                      <span className="ml-2 text-gray-700">{match.itemMasterDescription}</span>
+                    </div>
+                  ))}
+                </td>
+                <td className="px-4 py-2 text-right space-y-1">
+                  {proposed.map((match, rank) => (
+                    <div key={rank} className="font-semibold text-gray-900">{match.matchPercentage}%</div>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { solveAssignment } from '../assignment';
+import { MatchPairs } from '../matchEngine';
+
+// [item, line, score] triples
+const toPairs = (edges: [number, number, number][]): MatchPairs => ({
+  itemIndices: edges.map(([item]) => item),
+  genIndices: edges.map(([, line]) => line),
+  scores: edges.map(([, , score]) => score),
+});
+
+const toEdges = (pairs: MatchPairs): [number, number, number][] => {
+  return pairs.scores.map((score, idx) => [pairs.itemIndices[idx], pairs.genIndices[idx], score]);
+};
+
+const countBy = (values: number[]): Map<number, number> => {
+  const counts = new Map<number, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return counts;
+};
+
+const CANDIDATES = toPairs([
+  [0, 0, 95], [0, 1, 90], [0, 2, 60],
+  [1, 0, 88], [1, 1, 70],
+  [2, 1, 85], [2, 2, 82],
+  [3, 2, 50], [3, 3, 40],
+  [4, 0, 75], [4, 3, 65],
+]);
+
+describe('solveAssignment', () => {
+  it('moves an item to its second-best line when that lets another item fill the first', () => {
+    // Greedy takes item 0 for line 0 and leaves line 1 empty; the swap covers both lines
+    const result = solveAssignment(toPairs([[0, 0, 90], [0, 1, 85], [1, 0, 80]]));
+    assert.deepEqual(toEdges(result), [[0, 1, 85], [1, 0, 80]]);
+  });
+
+  it('proposes each item once and fills each line up to the capacity', () => {
+    [1, 2, 3].forEach(capacity => {
+      const result = solveAssignment(CANDIDATES, capacity);
+      countBy(result.itemIndices).forEach(count => assert.equal(count, 1));
+      countBy(result.genIndices).forEach(count => assert.ok(count <= capacity));
+    });
+  });
+
+  it('gives every line its best available item before any line gets a second one', () => {
+    const single = solveAssignment(CANDIDATES, 1);
+    const double = solveAssignment(CANDIDATES, 2);
+    assert.deepEqual(new Set(single.genIndices), new Set([0, 1, 2, 3]));
+    assert.deepEqual(new Set(double.genIndices), new Set(single.genIndices));
+    assert.ok(double.scores.length > single.scores.length);
+  });
+
+  it('returns the assigned pairs best first', () => {
+    const { scores } = solveAssignment(CANDIDATES, 2);
+    assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+  });
+
+  it('returns nothing for no candidates', () => {
+    assert.deepEqual(toEdges(solveAssignment(toPairs([]))), []);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeHeader, normalizeParsedRows, parseLocaleNumber } from '../fileParser';
+
+describe('parseLocaleNumber', () => {
+  it('reads every common digit grouping', () => {
+    assert.equal(parseLocaleNumber('13,38,072'), 1338072);
+    assert.equal(parseLocaleNumber('1,234,567.89'), 1234567.89);
+    assert.equal(parseLocaleNumber('1.234.567,89'), 1234567.89);
+    assert.equal(parseLocaleNumber('1.234.567'), 1234567);
+    assert.equal(parseLocaleNumber('1 234'), 1234);
+    assert.equal(parseLocaleNumber('1,234'), 1234);
+  });
+
+  it('reads a lone comma before one or two digits as the decimal separator', () => {
+    assert.equal(parseLocaleNumber('12,5'), 12.5);
+    assert.equal(parseLocaleNumber('0,25'), 0.25);
+  });
+
+  it('reads signs and accounting negatives', () => {
+    assert.equal(parseLocaleNumber('-1,500'), -1500);
+    assert.equal(parseLocaleNumber('(1,500)'), -1500);
+    assert.equal(parseLocaleNumber('+42'), 42);
+  });
+
+  it('passes finite numbers through', () => {
+    assert.equal(parseLocaleNumber(250), 250);
+    assert.equal(parseLocaleNumber(Number.NaN), null);
+  });
+
+  it('rejects text that is not a number', () => {
+    assert.equal(parseLocaleNumber(''), null);
+    assert.equal(parseLocaleNumber('N/A'), null);
+    assert.equal(parseLocaleNumber('12 BOX'), null);
+    assert.equal(parseLocaleNumber('1-10504-0'), null);
+  });
+});
+
+describe('normalizeHeader', () => {
+  it('strips the BOM and collapses line breaks', () => {
+    assert.equal(normalizeHeader('\uFEFFGROUP\nCATEGORY '), 'GROUP CATEGORY');
+  });
+});
+
+describe('normalizeParsedRows', () => {
+  it('normalizes headers and coerces numeric columns only', () => {
+    const { rows, warnings } = normalizeParsedRows<Record<string, unknown>>([
+      { 'SN': '1', 'NUPCO CODE': ' 4001 ', 'INITIAL\nQUANTITY': '13,38,072' },
+    ]);
+    assert.deepEqual(rows, [{ 'SN': 1, 'NUPCO CODE': '4001', 'INITIAL QUANTITY': 1338072 }]);
+    assert.deepEqual(warnings, []);
+  });
+
+  it('keeps a value that is not a number and warns about it', () => {
+    const { rows, warnings } = normalizeParsedRows<Record<string, unknown>>([
+      { 'SN': '1', 'INITIAL QUANTITY': '100' },
+      { 'SN': '2', 'INITIAL QUANTITY': 'TBD' },
+    ]);
+    assert.equal(rows[1]['INITIAL QUANTITY'], 'TBD');
+    assert.deepEqual(warnings, [
+      { row: 2, column: 'INITIAL QUANTITY', value: 'TBD', message: 'Could not parse "TBD" as a number' },
+    ]);
+  });
+
+  it('skips header rows repeated mid-file and records where each row came from', () => {
+    const cells = [
+      ['SN', 'NUPCO CODE', 'LONG DESCRIPTION'],
+      ['1', '4001', 'GAUZE'],
+      ['SN', 'NUPCO CODE', 'LONG DESCRIPTION'],
+      ['2', '4002', 'SUTURE'],
+    ];
+    const rawRows = cells.slice(1).map(row => ({ 'SN': row[0], 'NUPCO CODE': row[1], 'LONG DESCRIPTION': row[2] }));
+    const { rows, warnings, sheet } = normalizeParsedRows<Record<string, unknown>>(rawRows, [], cells);
+
+    assert.deepEqual(rows.map(row => row['NUPCO CODE']), ['4001', '4002']);
+    assert.deepEqual(warnings, [{ row: 2, column: '', value: '', message: 'Skipped repeated header row' }]);
+    assert.deepEqual(sheet, { cells, sourceRows: [1, 3] });
+    sheet?.sourceRows.forEach((cellRow, idx) => assert.equal(sheet.cells[cellRow][1], rows[idx]['NUPCO CODE']));
+  });
+
+  it('keeps warnings from the reader first and has no sheet without cells', () => {
+    const initial = [{ row: 3, column: '', value: '', message: 'Too few fields' }];
+    const result = normalizeParsedRows([{ 'SN': '1' }], initial);
+    assert.deepEqual(result.warnings, initial);
+    assert.equal(result.sheet, undefined);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareAttributes, extractAttributes } from '../medicalAttributes';
+
+const conflictsOf = (itemMaster: string, genConsumable: string) => {
+  return compareAttributes(extractAttributes(itemMaster), extractAttributes(genConsumable)).map(c => c.attribute);
+};
+
+describe('extractAttributes', () => {
+  it('reads volume, gauge, French size, pack count and sterility', () => {
+    const syringe = extractAttributes('Syringe 5 ml with needle 23G, sterile, 100/BX');
+    assert.deepEqual(syringe.volumesMl, [5]);
+    assert.deepEqual(syringe.gauges, [23]);
+    assert.deepEqual(syringe.packCounts, [100]);
+    assert.equal(syringe.sterile, true);
+
+    assert.deepEqual(extractAttributes('CATHETER FOLEY CH 14 2-WAY').frenchSizes, [14]);
+    assert.deepEqual(extractAttributes('CATHETER NELATON 14FR').frenchSizes, [14]);
+    assert.deepEqual(extractAttributes('IV FLUID 1 LTR').volumesMl, [1000]);
+  });
+
+  it('does not read grams as a gauge', () => {
+    assert.deepEqual(extractAttributes('POWDER 500G').gauges, []);
+  });
+
+  it('reads dimensions in mm, largest first, and not again as lengths', () => {
+    const gauze = extractAttributes('GAUZE SWAB 5 X 10 CM, 12 PLY');
+    assert.deepEqual(gauze.dimensionsMm, [[100, 50]]);
+    assert.deepEqual(gauze.lengthsMm, []);
+    assert.deepEqual(extractAttributes('BANDAGE 4" ROLL').lengthsMm, [101.6]);
+    assert.deepEqual(extractAttributes('TAPE 1/2 INCH').lengthsMm, [12.7]);
+  });
+
+  it('tells non-sterile from sterile and leaves sterility unknown otherwise', () => {
+    assert.equal(extractAttributes('GLOVE EXAM NON-STERILE').sterile, false);
+    assert.equal(extractAttributes('GLOVE EXAM UNSTERILE').sterile, false);
+    assert.equal(extractAttributes('GLOVE EXAM LATEX').sterile, null);
+  });
+});
+
+describe('compareAttributes', () => {
+  it('reports attributes both sides state with different values', () => {
+    assert.deepEqual(conflictsOf('SYRINGE 5ML STERILE', 'SYRINGE 3 ML NON STERILE'), ['volumesMl', 'sterile']);
+    assert.deepEqual(conflictsOf('NEEDLE 21G', 'NEEDLE 23G'), ['gauges']);
+    assert.deepEqual(conflictsOf('GAUZE 10X10CM', 'GAUZE 5X5CM'), ['dimensionsMm']);
+  });
+
+  it('ignores attributes stated on one side only', () => {
+    assert.deepEqual(conflictsOf('SYRINGE 5ML', 'SYRINGE LUER LOCK STERILE'), []);
+  });
+
+  it('treats inch and cm sizes that round to each other as the same', () => {
+    assert.deepEqual(conflictsOf('BANDAGE 4"', 'BANDAGE 10 CM'), []);
+    assert.deepEqual(conflictsOf('GAUZE 4 X 4 INCH', 'GAUZE 10 X 10 CM'), []);
+  });
+
+  it('formats the conflicting values for display', () => {
+    const [conflict] = compareAttributes(extractAttributes('CATHETER 12FR'), extractAttributes('CATHETER 14 FR'));
+    assert.deepEqual(conflict, {
+      attribute: 'frenchSizes',
+      label: 'French size',
+      itemMasterValue: '12 Fr',
+      genConsumableValue: '14 Fr',
+    });
+  });
+});
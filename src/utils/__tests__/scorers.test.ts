@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GenConsumableRow, ItemMasterRow } from '../fileParser';
+import { MatchRecord } from '../columnMapping';
+import { computeIdf, getScorerText, prepareMatchData } from '../matchEngine';
+import { BASE_SCORER_IDS, calculateSubScores, SCORERS } from '../scorers';
+
+const toRecords = <T extends ItemMasterRow | GenConsumableRow>(descriptions: string[]) => {
+  return descriptions.map((description, idx) => ({ code: String(idx), description }) as MatchRecord<T>);
+};
+
+// Scores every item against the first tender line, with the IDF of all the tender lines
+const scoreItems = (items: string[], tender: string[]) => {
+  const { items: encodedItems, consumables } = prepareMatchData(
+    toRecords<ItemMasterRow>(items),
+    toRecords<GenConsumableRow>(tender)
+  );
+  const idf = computeIdf(consumables);
+  const tenderText = getScorerText(consumables, 0);
+  return items.map((_, idx) => calculateSubScores(getScorerText(encodedItems, idx), tenderText, idf));
+};
+
+const TENDER = ['CATHETER FOLEY 14FR', 'GLOVE EXAMINATION LATEX MEDIUM', 'SYRINGE 5ML LUER LOCK', 'GAUZE SWAB 10X10CM'];
+
+describe('scorers', () => {
+  it('score identical descriptions 100% with every scorer', () => {
+    const [scores] = scoreItems(['CATHETER FOLEY 14FR'], TENDER);
+    BASE_SCORER_IDS.forEach(id => assert.equal(scores[id], 100, id));
+  });
+
+  it('lower the TF-IDF score for tokens only the Item Master has', () => {
+    const [exact, extra] = scoreItems(['CATHETER FOLEY 14FR', 'CATHETER FOLEY SILICONE TWOWAY LATEXFREE 14FR'], TENDER);
+    assert.equal(exact.tfidfCosine, 100);
+    assert.ok(extra.tfidfCosine < 80, `scored ${extra.tfidfCosine}%`);
+  });
+
+  it('lower the ensemble score for tokens only the Item Master has', () => {
+    const { items, consumables } = prepareMatchData(
+      toRecords<ItemMasterRow>(['CATHETER FOLEY SILICONE TWOWAY LATEXFREE 14FR']),
+      toRecords<GenConsumableRow>(TENDER)
+    );
+    const score = SCORERS.ensemble.score(getScorerText(items, 0), getScorerText(consumables, 0), computeIdf(consumables));
+    assert.ok(score < 0.8, `scored ${score}`);
+  });
+
+  it('weight tokens by how rare they are in the tender', () => {
+    const tender = ['STERILE GLOVE', 'STERILE GAUZE', 'STERILE SYRINGE', 'STERILE CATHETER'];
+    const [sharedCommon, sharedRare] = scoreItems(['STERILE DRAPE'], tender).concat(scoreItems(['OTHER GLOVE'], tender));
+    assert.ok(sharedRare.tfidfCosine > sharedCommon.tfidfCosine);
+  });
+});
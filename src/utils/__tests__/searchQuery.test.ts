@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GenConsumableRow, ItemMasterRow } from '../fileParser';
+import { MatchRecord } from '../columnMapping';
+import { MatchSummary } from '../matcher';
+import { compileSearchQuery, QuerySyntaxError } from '../searchQuery';
+
+const createMatch = (
+  item: Partial<MatchRecord<ItemMasterRow>>,
+  line: Partial<MatchRecord<GenConsumableRow>>,
+  matchPercentage: number
+): MatchSummary => ({
+  itemMasterRecord: { uom: '', category: '', manufacturer: '', ...item } as MatchRecord<ItemMasterRow>,
+  genConsumableRecord: { uom: '', category: '', quantity: '', ...line } as MatchRecord<GenConsumableRow>,
+  matchPercentage,
+  itemMasterDescription: item.description ?? '',
+  genConsumableDescription: line.description ?? '',
+});
+
+const MATCHES = [
+  createMatch(
+    { code: 'A100', description: 'GLOVE EXAM LATEX MEDIUM', category: 'Wound Care', uom: 'BOX' },
+    { code: '4214001', description: 'GLOVES EXAMINATION LATEX SIZE M', quantity: '1,200' },
+    92
+  ),
+  createMatch(
+    { code: 'A200', description: 'GLOVE EXAM NITRILE LARGE', category: 'Infection Control' },
+    { code: '4214002', description: 'GLOVES NITRILE POWDER FREE L', quantity: 40 },
+    78
+  ),
+  createMatch(
+    { code: 'B300', description: 'SYRINGE 5ML LUER LOCK', category: 'Wound Care' },
+    { code: '5100001', description: 'SYRINGE 5 ML LUER LOCK STERILE', quantity: '' },
+    65
+  ),
+];
+
+// Item codes of the matches the query keeps
+const search = (query: string): string[] => {
+  const predicate = compileSearchQuery(query);
+  return MATCHES.filter(match => !predicate || predicate(match)).map(match => match.itemMasterRecord.code);
+};
+
+const syntaxErrorOf = (query: string): QuerySyntaxError => {
+  try {
+    compileSearchQuery(query);
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return error;
+    throw error;
+  }
+  throw new Error(`"${query}" parsed without an error`);
+};
+
+describe('compileSearchQuery', () => {
+  it('has no filter for an empty query', () => {
+    assert.equal(compileSearchQuery('   '), null);
+  });
+
+  it('requires every term, anywhere in the descriptions or codes, ignoring case', () => {
+    assert.deepEqual(search('glove latex'), ['A100']);
+    assert.deepEqual(search('5100001'), ['B300']);
+    assert.deepEqual(search('Nitrile AND glove'), ['A200']);
+  });
+
+  it('looks in one field when the term names it, and reads quoted phrases', () => {
+    assert.deepEqual(search('bu:"wound care"'), ['A100', 'B300']);
+    assert.deepEqual(search('item:sterile'), []);
+    assert.deepEqual(search('tender:sterile'), ['B300']);
+    assert.deepEqual(search('uom:box'), ['A100']);
+  });
+
+  it('matches wildcards against whole words', () => {
+    assert.deepEqual(search('nupco:4214*'), ['A100', 'A200']);
+    assert.deepEqual(search('nupco:421*1'), ['A100']);
+    assert.deepEqual(search('desc:glove?'), ['A100', 'A200']);
+  });
+
+  it('compares numbers, including tender quantities with digit grouping', () => {
+    assert.deepEqual(search('score:>80'), ['A100']);
+    assert.deepEqual(search('score:65..78'), ['A200', 'B300']);
+    assert.deepEqual(search('score:<=65'), ['B300']);
+    assert.deepEqual(search('qty:>=1000'), ['A100']);
+  });
+
+  it('negates terms and groups, and combines alternatives', () => {
+    assert.deepEqual(search('glove -latex'), ['A200']);
+    assert.deepEqual(search('NOT (nitrile | syringe)'), ['A100']);
+    assert.deepEqual(search('latex OR syringe'), ['A100', 'B300']);
+    assert.deepEqual(search('bu:"wound care" (latex | score:<70)'), ['A100', 'B300']);
+  });
+
+  it('runs regular expressions without regard to case', () => {
+    assert.deepEqual(search('desc:/\\d+\\s?ml/'), ['B300']);
+    assert.deepEqual(search('code:/^a\\d00$/g'), ['A100', 'A200']);
+  });
+
+  it('reports where a malformed query goes wrong', () => {
+    assert.match(syntaxErrorOf('color:red').message, /Unknown field "color"/);
+    assert.equal(syntaxErrorOf('glove (latex').position, 6);
+    assert.match(syntaxErrorOf('glove)').message, /Unexpected "\)" at character 6/);
+    assert.match(syntaxErrorOf('"latex').message, /Unclosed quote/);
+    assert.match(syntaxErrorOf('score:high').message, /score needs a number/);
+    assert.match(syntaxErrorOf('desc:/[a-/').message, /Invalid regular expression/);
+    assert.match(syntaxErrorOf('glove |').message, /ends where a search term was expected/);
+  });
+});
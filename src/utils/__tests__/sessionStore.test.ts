@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GenConsumableRow, ItemMasterRow } from '../fileParser';
+import { DEFAULT_COLUMN_MAPPINGS } from '../columnMapping';
+import { MatchSession, parseSessionJson, serializeSession } from '../sessionStore';
+
+const createSession = (): MatchSession => ({
+  id: 'session-1',
+  name: 'Nursing tender',
+  createdAt: 1700000000000,
+  updatedAt: 1700000000000,
+  itemMaster: {
+    fileName: 'item-master.csv',
+    hash: 'fnv1a64:0123456789abcdef',
+    mapping: { ...DEFAULT_COLUMN_MAPPINGS.itemMaster },
+    rows: [
+      { 'Item Code': 'A1', 'Description': 'GAUZE SWAB 10X10CM' } as ItemMasterRow,
+      { 'Item Code': 'A2', 'Description': 'SUTURE SILK 2/0' } as ItemMasterRow,
+    ],
+  },
+  genConsumable: {
+    fileName: 'tender.xlsx',
+    hash: 'fnv1a64:fedcba9876543210',
+    mapping: { ...DEFAULT_COLUMN_MAPPINGS.genConsumable },
+    rows: [{ 'SN': 1, 'NUPCO CODE': '4001', 'LONG DESCRIPTION': 'GAUZE SWAB 10 X 10 CM' } as GenConsumableRow],
+    sheet: { cells: [['SN', 'NUPCO CODE', 'LONG DESCRIPTION'], ['1', '4001', 'GAUZE SWAB 10 X 10 CM']], sourceRows: [1] },
+  },
+  settings: { scorer: 'ensemble', attributeMode: 'penalize', synonyms: [{ term: 'catheter', synonyms: ['cath'] }], assignmentCapacity: 0 },
+  candidateThreshold: 0,
+  pairs: { itemIndices: [0, 1], genIndices: [0, 0], scores: [92.5, 12] },
+  filters: { minThreshold: 50, searchTerm: 'gauze', filterQuality: 'all', reviewFilter: 'active', view: 'matches' },
+  reviews: [{
+    id: '4001#1::A1',
+    genConsumableCode: '4001',
+    genConsumableLine: '1',
+    itemMasterCode: 'A1',
+    status: 'confirmed',
+    note: '',
+    manual: false,
+    updatedAt: 1700000000000,
+  }],
+});
+
+// Exports a valid session after the change; fields set to undefined are left out
+const exportWith = (change: (session: MatchSession) => void): string => {
+  const session = createSession();
+  change(session);
+  return serializeSession(session);
+};
+
+describe('parseSessionJson', () => {
+  it('reads back an exported session', () => {
+    assert.deepEqual(parseSessionJson(serializeSession(createSession())), createSession());
+  });
+
+  it('accepts sessions saved before reviews, facets and the raw sheet were kept', () => {
+    const session = parseSessionJson(exportWith(s => {
+      Object.assign(s, { reviews: undefined });
+      s.genConsumable.sheet = undefined;
+      s.filters.facets = undefined;
+    }));
+    assert.deepEqual(session.reviews, []);
+    assert.equal(session.genConsumable.sheet, undefined);
+  });
+
+  it('rejects files that are not sessions or come from a newer version', () => {
+    assert.throws(() => parseSessionJson('{"format":"other"}'), /not an exported match session/);
+    const newer = JSON.stringify({ ...JSON.parse(serializeSession(createSession())), version: 99 });
+    assert.throws(() => parseSessionJson(newer), /newer version/);
+  });
+
+  it('rejects incomplete or damaged inputs and pairs', () => {
+    const damaged = /incomplete or damaged/;
+    assert.throws(() => parseSessionJson(exportWith(s => Object.assign(s.itemMaster, { rows: undefined }))), damaged);
+    assert.throws(() => parseSessionJson(exportWith(s => { s.genConsumable.mapping.code = ''; })), damaged);
+    assert.throws(() => parseSessionJson(exportWith(s => { s.genConsumable.sheet = { cells: [], sourceRows: [1] }; })), damaged);
+    assert.throws(() => parseSessionJson(exportWith(s => { s.pairs.scores = [92.5]; })), damaged);
+    assert.throws(() => parseSessionJson(exportWith(s => { s.pairs.scores[0] = 250; })), damaged);
+  });
+
+  it('rejects unknown settings, filters and review decisions', () => {
+    assert.throws(() => parseSessionJson(exportWith(s => Object.assign(s.settings, { scorer: 'constructor' }))), /matcher settings/);
+    assert.throws(() => parseSessionJson(exportWith(s => { s.settings.assignmentCapacity = 1.5; })), /matcher settings/);
+    assert.throws(() => parseSessionJson(exportWith(s => Object.assign(s.filters, { view: 'charts' }))), /filters/);
+    assert.throws(() => parseSessionJson(exportWith(s => Object.assign(s.filters, { facets: { color: ['red'] } }))), /filters/);
+    assert.throws(() => parseSessionJson(exportWith(s => Object.assign(s.reviews[0], { status: 'maybe' }))), /review decisions/);
+  });
+
+  it('rejects pairs that point past the saved rows', () => {
+    assert.throws(() => parseSessionJson(exportWith(s => { s.pairs.itemIndices[1] = 2; })), /rows it does not contain/);
+    assert.throws(() => parseSessionJson(exportWith(s => { s.pairs.genIndices[0] = -1; })), /rows it does not contain/);
+  });
+});
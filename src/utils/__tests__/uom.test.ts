@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareUom, convertQuantity, normalizeUom, parsePackSizes } from '../uom';
+
+describe('normalizeUom', () => {
+  it('maps spellings to a canonical unit', () => {
+    assert.equal(normalizeUom('Pcs.').unit, 'EA');
+    assert.equal(normalizeUom(' ctn ').unit, 'CASE');
+    assert.equal(normalizeUom('LTR').unit, 'L');
+    assert.equal(normalizeUom('XYZ').unit, null);
+  });
+
+  it('reads Item Master units of a fixed size', () => {
+    assert.deepEqual(normalizeUom('B50'), { raw: 'B50', unit: 'BOX', kind: 'container', size: 50 });
+  });
+});
+
+describe('parsePackSizes', () => {
+  it('reads "48/CS", "100PCS/BOX" and "BAG OF 20"', () => {
+    assert.deepEqual(parsePackSizes('Glove exam 100PCS/BOX, 1000 PCS/CTN'), new Map([['BOX', 100], ['CASE', 1000]]));
+    assert.deepEqual(parsePackSizes('CATHETER 48/CS'), new Map([['CASE', 48]]));
+    assert.deepEqual(parsePackSizes('SWAB BAG OF 20'), new Map([['BAG', 20]]));
+  });
+});
+
+describe('compareUom', () => {
+  it('finds the same unit under different spellings', () => {
+    const comparison = compareUom('EA', '', 'Each', '');
+    assert.equal(comparison.status, 'same');
+    assert.equal(comparison.factor, 1);
+  });
+
+  it('converts a tender container into our units with the pack size from a description', () => {
+    const comparison = compareUom('EA', 'GLOVE EXAM LATEX M', 'BOX', 'GLOVE EXAMINATION 100/BOX');
+    assert.equal(comparison.status, 'convertible');
+    assert.equal(comparison.factor, 100);
+    assert.equal(comparison.note, '1 BOX = 100 EA');
+  });
+
+  it('converts between sizes of the same kind', () => {
+    assert.equal(compareUom('ML', '', 'L', '').factor, 1000);
+    assert.equal(compareUom('B50', '', 'CASE', 'SUTURE 500/CS').factor, 10);
+  });
+
+  it('asks for the pack size when no description states it', () => {
+    const comparison = compareUom('EA', 'GAUZE SWAB', 'BOX', 'GAUZE SWAB 10X10CM');
+    assert.equal(comparison.status, 'unknown');
+    assert.equal(comparison.factor, null);
+    assert.equal(comparison.note, 'Number of items per BOX is not stated');
+  });
+
+  it('rejects units of different kinds and flags units it does not know', () => {
+    assert.equal(compareUom('ML', '', 'KG', '').status, 'incompatible');
+    assert.equal(compareUom('EA', '', 'TUBE', '').status, 'unknown');
+    assert.equal(compareUom('EA', '', 'TUBE', '').note, 'Unrecognized unit "TUBE"');
+  });
+
+  it('does not treat a pair as two of each', () => {
+    assert.equal(compareUom('EA', '', 'PAIR', '').status, 'unknown');
+  });
+});
+
+describe('convertQuantity', () => {
+  it('converts the tender quantity into our units, rounding up', () => {
+    const perBox = compareUom('EA', '', 'BOX', '100/BOX');
+    assert.equal(convertQuantity('13,38,072', perBox), 133807200);
+    assert.equal(convertQuantity(2.5, compareUom('B50', '', 'EA', '')), 1);
+    assert.equal(convertQuantity(30, compareUom('L', '', 'ML', '')), 1);
+  });
+
+  it('does not add a unit for floating point noise', () => {
+    assert.equal(convertQuantity('30', { ...compareUom('EA', '', 'EA', ''), factor: 0.1 }), 3);
+  });
+
+  it('gives nothing without a factor or a numeric quantity', () => {
+    assert.equal(convertQuantity(10, compareUom('EA', '', 'BOX', '')), null);
+    assert.equal(convertQuantity('TBD', compareUom('EA', '', 'EA', '')), null);
+  });
+});
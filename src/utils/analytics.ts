@@ -0,0 +1,110 @@
+import { GenConsumableRow } from './fileParser';
+import { MatchRecord } from './columnMapping';
+import { MatchResult, MatchSummary } from './matcher';
+import { getMatchQuality, MatchQuality } from './pricing';
+
+export interface HistogramBin {
+  label: string; // e.g. "70-74"
+  from: number;
+  count: number;
+  quality: MatchQuality;
+}
+
+export interface CategoryCoverage {
+  category: string;
+  covered: number;
+  notCovered: number;
+}
+
+// A type alias rather than an interface so it satisfies recharts' indexable pie data
+export type GroupCount = {
+  name: string;
+  count: number;
+};
+
+export interface SensitivityPoint {
+  threshold: number;
+  matches: number;
+  linesCovered: number;
+}
+
+const HISTOGRAM_BIN_WIDTH = 5;
+const UNSPECIFIED = 'Unspecified';
+
+/**
+ * Match scores in 5-point bins, from the lowest populated bin up to 100
+ */
+export const buildScoreHistogram = (matches: MatchResult[]): HistogramBin[] => {
+  if (matches.length === 0) return [];
+  const binCount = 100 / HISTOGRAM_BIN_WIDTH;
+  const counts = new Array<number>(binCount).fill(0);
+  matches.forEach(match => {
+    counts[Math.min(Math.floor(match.matchPercentage / HISTOGRAM_BIN_WIDTH), binCount - 1)]++;
+  });
+  const firstBin = counts.findIndex(count => count > 0);
+  return counts.slice(firstBin).map((count, idx) => {
+    const from = (firstBin + idx) * HISTOGRAM_BIN_WIDTH;
+    const to = from + HISTOGRAM_BIN_WIDTH - (from + HISTOGRAM_BIN_WIDTH === 100 ? 0 : 1);
+    return { label: `${from}-${to}`, from, count, quality: getMatchQuality(from) };
+  });
+};
+
+/**
+ * Count matches per group, largest first; smaller groups beyond the limit are folded into "Other"
+ */
+export const countMatchesBy = (
+  matches: MatchResult[],
+  keyOf: (match: MatchResult) => string | undefined,
+  limit: number
+): GroupCount[] => {
+  const counts = new Map<string, number>();
+  matches.forEach(match => {
+    const key = keyOf(match)?.trim() || UNSPECIFIED;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  const sorted = Array.from(counts, ([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count);
+  if (sorted.length <= limit) return sorted;
+  const other = sorted.slice(limit - 1).reduce((sum, group) => sum + group.count, 0);
+  return [...sorted.slice(0, limit - 1), { name: 'Other', count: other }];
+};
+
+/**
+ * Tender lines with and without a match, per tender GROUP CATEGORY
+ */
+export const calculateCategoryCoverage = (
+  matches: MatchResult[],
+  tenderLines: MatchRecord<GenConsumableRow>[]
+): CategoryCoverage[] => {
+  const matchedLines = new Set(matches.map(match => match.genConsumableRecord));
+  const byCategory = new Map<string, CategoryCoverage>();
+  tenderLines.forEach(line => {
+    if (!line.description) return;
+    const category = line.category.trim() || UNSPECIFIED;
+    const entry = byCategory.get(category) ?? { category, covered: 0, notCovered: 0 };
+    if (matchedLines.has(line)) entry.covered++;
+    else entry.notCovered++;
+    byCategory.set(category, entry);
+  });
+  return Array.from(byCategory.values()).sort((a, b) => b.covered + b.notCovered - (a.covered + a.notCovered));
+};
+
+/**
+ * How many matches and covered tender lines there are at each threshold from
+ * fromThreshold up to 100; matchesAt gives the matches at one threshold
+ */
+export const calculateThresholdSensitivity = (
+  matchesAt: (threshold: number) => MatchSummary[],
+  fromThreshold: number,
+  step: number = 5
+): SensitivityPoint[] => {
+  const points: SensitivityPoint[] = [];
+  for (let threshold = fromThreshold; threshold <= 100; threshold += step) {
+    const kept = matchesAt(threshold);
+    points.push({
+      threshold,
+      matches: kept.length,
+      linesCovered: new Set(kept.map(match => match.genConsumableRecord)).size,
+    });
+  }
+  return points;
+};
@@ -0,0 +1,105 @@
+import { createMatchPairs, MatchPairs } from './matchEngine';
+
+// Repair passes stop early once a pass finds no improving move
+const MAX_REPAIR_PASSES = 10;
+
+/**
+ * Pick at most one item per tender line and one line per item, maximizing the total score.
+ * Greedy by descending score, then repaired with augmenting swaps: an item taken by line A
+ * moves to line B when A can be refilled by a free item and the total score grows.
+ */
+const assignOnePerLine = (pairs: MatchPairs, edges: number[]): number[] => {
+  const order = [...edges].sort((a, b) => pairs.scores[b] - pairs.scores[a]);
+
+  // Candidate edges of each tender line, best first
+  const lineEdges = new Map<number, number[]>();
+  order.forEach(edge => {
+    const line = pairs.genIndices[edge];
+    const candidates = lineEdges.get(line);
+    if (candidates) candidates.push(edge);
+    else lineEdges.set(line, [edge]);
+  });
+
+  const itemEdge = new Map<number, number>();
+  const lineEdge = new Map<number, number>();
+  const select = (edge: number) => {
+    itemEdge.set(pairs.itemIndices[edge], edge);
+    lineEdge.set(pairs.genIndices[edge], edge);
+  };
+  const unselect = (edge: number) => {
+    itemEdge.delete(pairs.itemIndices[edge]);
+    lineEdge.delete(pairs.genIndices[edge]);
+  };
+
+  // Take every edge whose item and line are both free, best first
+  const fill = () => order.forEach(edge => {
+    if (!itemEdge.has(pairs.itemIndices[edge]) && !lineEdge.has(pairs.genIndices[edge])) select(edge);
+  });
+
+  const bestFreeEdge = (line: number, excludedItem: number): number => {
+    const free = (lineEdges.get(line) ?? []).find(edge => {
+      const item = pairs.itemIndices[edge];
+      return item !== excludedItem && !itemEdge.has(item);
+    });
+    return free ?? -1;
+  };
+
+  fill();
+  for (let pass = 0; pass < MAX_REPAIR_PASSES; pass++) {
+    let improved = false;
+
+    order.forEach(edge => {
+      if (lineEdge.has(pairs.genIndices[edge])) return;
+      const current = itemEdge.get(pairs.itemIndices[edge]);
+      if (current === undefined) return;
+
+      const refill = bestFreeEdge(pairs.genIndices[current], pairs.itemIndices[edge]);
+      if (refill < 0) return;
+
+      const gain = pairs.scores[edge] + pairs.scores[refill] - pairs.scores[current];
+      if (gain <= 1e-9) return;
+
+      unselect(current);
+      select(edge);
+      select(refill);
+      improved = true;
+    });
+
+    if (!improved) break;
+    fill();
+  }
+
+  return Array.from(lineEdge.values());
+};
+
+/**
+ * One-to-one assignment over candidate pairs: each tender line gets at most `capacity`
+ * items and each Item Master record is proposed for at most one tender line.
+ * Lines are filled in rounds, so every line gets its best item before any line gets
+ * a second one and raising the capacity never uncovers a line.
+ */
+export const solveAssignment = (pairs: MatchPairs, capacity: number = 1): MatchPairs => {
+  const usedItems = new Set<number>();
+  const assigned: number[] = [];
+
+  for (let round = 0; round < capacity; round++) {
+    const available: number[] = [];
+    pairs.itemIndices.forEach((item, edge) => {
+      if (!usedItems.has(item)) available.push(edge);
+    });
+    const chosen = assignOnePerLine(pairs, available);
+    if (chosen.length === 0) break;
+    chosen.forEach(edge => {
+      usedItems.add(pairs.itemIndices[edge]);
+      assigned.push(edge);
+    });
+  }
+
+  const selected = createMatchPairs();
+  assigned.sort((a, b) => pairs.scores[b] - pairs.scores[a]).forEach(edge => {
+    selected.itemIndices.push(pairs.itemIndices[edge]);
+    selected.genIndices.push(pairs.genIndices[edge]);
+    selected.scores.push(pairs.scores[edge]);
+  });
+  return selected;
+};
@@ -0,0 +1,188 @@
+import { ItemMasterRow, GenConsumableRow } from './fileParser';
+
+export type MappedField =
+  | 'code'
+  | 'description'
+  | 'uom'
+  | 'category'
+  | 'quantity'
+  | 'lineNumber'
+  | 'itemType'
+  | 'manufacturer'
+  | 'forecasted';
+
+export type MappingSide = 'itemMaster' | 'genConsumable';
+
+/**
+ * Which source column feeds each matcher field ('' = not mapped)
+ */
+export type ColumnMapping = Record<MappedField, string>;
+
+/**
+ * Generic record the matcher works on, independent of the source file's headers
+ */
+export interface MatchRecord<T = ItemMasterRow | GenConsumableRow> {
+  code: string;
+  description: string;
+  uom: string;
+  category: string;
+  quantity: string | number;
+  lineNumber: string; // tender only: SN, which tells apart lines repeating a NUPCO code
+  itemType: string; // Item Master only, e.g. MFG / TRD
+  manufacturer: string; // Item Master only
+  forecasted: string; // Item Master only
+  row: T;
+}
+
+const BOTH_SIDES: MappingSide[] = ['itemMaster', 'genConsumable'];
+
+export const MAPPED_FIELDS: { key: MappedField; label: string; required: boolean; sides: MappingSide[] }[] = [
+  { key: 'code', label: 'Code', required: true, sides: BOTH_SIDES },
+  { key: 'description', label: 'Description', required: true, sides: BOTH_SIDES },
+  { key: 'uom', label: 'UOM', required: false, sides: BOTH_SIDES },
+  { key: 'category', label: 'Category', required: false, sides: BOTH_SIDES },
+  { key: 'quantity', label: 'Quantity', required: false, sides: BOTH_SIDES },
+  { key: 'lineNumber', label: 'Line No. (SN)', required: false, sides: ['genConsumable'] },
+  { key: 'itemType', label: 'Item Type', required: false, sides: ['itemMaster'] },
+  { key: 'manufacturer', label: 'Manufacturer', required: false, sides: ['itemMaster'] },
+  { key: 'forecasted', label: 'Forecasted', required: false, sides: ['itemMaster'] },
+];
+
+export const getMappedFields = (side: MappingSide) => MAPPED_FIELDS.filter(field => field.sides.includes(side));
+
+export const DEFAULT_COLUMN_MAPPINGS: Record<MappingSide, ColumnMapping> = {
+  itemMaster: {
+    code: 'Item Code',
+    description: 'Description',
+    uom: 'UOM',
+    category: 'Buisness Unit',
+    quantity: '',
+    lineNumber: '',
+    itemType: 'Item Type',
+    manufacturer: 'Manufacturer',
+    forecasted: 'Forecasted',
+  },
+  genConsumable: {
+    code: 'NUPCO CODE',
+    description: 'LONG DESCRIPTION',
+    uom: 'UOM',
+    category: 'GROUP CATEGORY',
+    quantity: 'INITIAL QUANTITY',
+    lineNumber: 'SN',
+    itemType: '',
+    manufacturer: '',
+    forecasted: '',
+  },
+};
+
+// Header keywords used to guess a mapping for files we have never seen
+const FIELD_KEYWORDS: Record<MappedField, RegExp> = {
+  code: /\bcode\b|item\s*(no|number)|sku|material/i,
+  description: /desc|item\s*name|product\s*name/i,
+  uom: /\buom\b|^unit$|unit\s*of\s*measure/i, // not "Business Unit"
+  category: /categ|group|business\s*unit|buisness\s*unit/i,
+  quantity: /\bqty\b|quantit/i,
+  lineNumber: /^(sn|s\.?\s?no\.?|line\s*(no\.?|number))$/i,
+  itemType: /item\s*type|product\s*type/i,
+  manufacturer: /manufactur|\bmfr\b|\bbrand\b/i,
+  forecasted: /forecast/i,
+};
+
+const STORAGE_KEY_PREFIX = 'columnMapping';
+
+/**
+ * Identify a file layout by its headers so a saved mapping can be reused
+ */
+export const getFileSignature = (headers: string[]): string => {
+  return headers.map(h => h.trim().toLowerCase()).sort().join('|');
+};
+
+/**
+ * Propose a mapping from the side's defaults, falling back to header keywords.
+ * Defaults are placed first so a keyword cannot take a column a default names,
+ * and no column is mapped to two fields.
+ */
+export const guessColumnMapping = (headers: string[], side: MappingSide): ColumnMapping => {
+  const defaults = DEFAULT_COLUMN_MAPPINGS[side];
+  const fields = getMappedFields(side);
+  const used = new Set<string>();
+  const mapping = Object.fromEntries(MAPPED_FIELDS.map(({ key }) => [key, ''])) as ColumnMapping;
+
+  const assign = (key: MappedField, column: string | undefined) => {
+    if (!column || mapping[key]) return;
+    used.add(column);
+    mapping[key] = column;
+  };
+  fields.forEach(({ key }) => {
+    assign(key, headers.find(h => !used.has(h) && defaults[key] && h.toLowerCase() === defaults[key].toLowerCase()));
+  });
+  fields.forEach(({ key }) => {
+    assign(key, headers.find(h => !used.has(h) && FIELD_KEYWORDS[key].test(h)));
+  });
+
+  return mapping;
+};
+
+export const loadSavedColumnMapping = (side: MappingSide, signature: string): ColumnMapping | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = window.localStorage.getItem(`${STORAGE_KEY_PREFIX}:${side}:${signature}`);
+    return stored ? (JSON.parse(stored) as ColumnMapping) : null;
+  } catch (error) {
+    console.error('Error reading saved column mapping:', error);
+    return null;
+  }
+};
+
+export const saveColumnMapping = (side: MappingSide, signature: string, mapping: ColumnMapping): void => {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(`${STORAGE_KEY_PREFIX}:${side}:${signature}`, JSON.stringify(mapping));
+  } catch (error) {
+    console.error('Error saving column mapping:', error);
+  }
+};
+
+/**
+ * Resolve the mapping to use for a file: saved for this signature, else guessed.
+ * Fields added since a mapping was saved are guessed.
+ */
+export const resolveColumnMapping = (headers: string[], side: MappingSide): ColumnMapping => {
+  const saved = loadSavedColumnMapping(side, getFileSignature(headers));
+  return saved ? { ...guessColumnMapping(headers, side), ...saved } : guessColumnMapping(headers, side);
+};
+
+export const isColumnMappingComplete = (mapping: ColumnMapping): boolean => {
+  return MAPPED_FIELDS.every(({ key, required }) => !required || !!mapping[key]);
+};
+
+const readColumn = (row: Record<string, unknown>, column: string | undefined): string => {
+  if (!column) return '';
+  const value = row[column];
+  return value === undefined || value === null ? '' : String(value);
+};
+
+/**
+ * Convert parsed rows into matcher records using the chosen column mapping
+ */
+export const applyColumnMapping = <T extends ItemMasterRow | GenConsumableRow>(
+  rows: T[],
+  mapping: ColumnMapping
+): MatchRecord<T>[] => {
+  return rows.map(row => {
+    const source = row as unknown as Record<string, unknown>;
+    const rawQuantity = mapping.quantity ? source[mapping.quantity] : '';
+    return {
+      code: readColumn(source, mapping.code),
+      description: readColumn(source, mapping.description),
+      uom: readColumn(source, mapping.uom),
+      category: readColumn(source, mapping.category),
+      quantity: typeof rawQuantity === 'number' ? rawQuantity : readColumn(source, mapping.quantity),
+      lineNumber: readColumn(source, mapping.lineNumber),
+      itemType: readColumn(source, mapping.itemType),
+      manufacturer: readColumn(source, mapping.manufacturer),
+      forecasted: readColumn(source, mapping.forecasted),
+      row,
+    };
+  });
+};
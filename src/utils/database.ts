@@ -0,0 +1,71 @@
+const DB_NAME = 'match-dashboard';
+const DB_VERSION = 2;
+
+// Every object store of the dashboard database, keyed by their records' id
+export const STORE_NAMES = {
+  reviewDecisions: 'reviewDecisions',
+  sessionSummaries: 'sessionSummaries',
+  sessions: 'sessions',
+} as const;
+
+export type StoreName = (typeof STORE_NAMES)[keyof typeof STORE_NAMES];
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      Object.values(STORE_NAMES).forEach(name => {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name, { keyPath: 'id' });
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Run a single request against one store and resolve with its result
+ */
+export const runTransaction = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Write to several stores at once; resolves when the whole transaction has committed
+ */
+export const runWriteTransaction = async (
+  storeNames: StoreName[],
+  operation: (transaction: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(storeNames, 'readwrite');
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+      operation(transaction);
+    });
+  } finally {
+    db.close();
+  }
+};
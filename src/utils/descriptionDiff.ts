@@ -0,0 +1,167 @@
+import { applySynonyms, EMPTY_SYNONYM_TABLE, SynonymTable } from './synonyms';
+
+/**
+ * How a piece of a description lines up with the other description:
+ * equal (in both, in order), deleted (only in the Item Master description),
+ * inserted (only in the tender description), numberMismatch (a number aligned with
+ * a different number on the other side) or separator (spaces and punctuation)
+ */
+export type DiffSegmentKind = 'equal' | 'deleted' | 'inserted' | 'numberMismatch' | 'separator';
+
+export interface DiffSegment {
+  text: string; // as written in the original description
+  kind: DiffSegmentKind;
+}
+
+export interface NumberMismatch {
+  itemMaster: string; // e.g. "5 ML"
+  genConsumable: string; // e.g. "3 ML"
+}
+
+/**
+ * Ordered token alignment of two descriptions, both rebuilt in full from their segments
+ */
+export interface DescriptionAlignment {
+  itemMaster: DiffSegment[];
+  genConsumable: DiffSegment[];
+  numberMismatches: NumberMismatch[];
+}
+
+interface DiffToken {
+  text: string;
+  key: string; // lowercased, synonyms expanded
+  value: number | null; // for numeric tokens
+  separatorBefore: string;
+}
+
+// Words and numbers are tokens; "5ML" splits into "5" and "ML" so it aligns with "5 ML"
+const TOKEN_PATTERN = /\d+(?:[.,]\d+)*|[A-Za-z\u00B5\u00C0-\u024F]+/;
+
+const parseTokenNumber = (text: string): number | null => {
+  // "1,000" is a thousands separator, "0,5" a decimal comma
+  const normalized = /^\d{1,3}(,\d{3})+$/.test(text) ? text.replace(/,/g, '') : text.replace(',', '.');
+  const value = Number(normalized);
+  return /^\d/.test(text) && Number.isFinite(value) ? value : null;
+};
+
+const tokenize = (text: string, synonyms: SynonymTable): { tokens: DiffToken[]; trailing: string } => {
+  const tokens: DiffToken[] = [];
+  let position = 0;
+  const pattern = new RegExp(TOKEN_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const start = match.index;
+    const value = parseTokenNumber(match[0]);
+    tokens.push({
+      text: match[0],
+      key: value !== null ? String(value) : applySynonyms(match[0], synonyms).trim(),
+      value,
+      separatorBefore: text.slice(position, start),
+    });
+    position = start + match[0].length;
+  }
+  return { tokens, trailing: text.slice(position) };
+};
+
+// Numbers compare by value, so "5.0" lines up with "5"
+const tokensEqual = (a: DiffToken, b: DiffToken): boolean => {
+  return a.value !== null && b.value !== null ? a.value === b.value : a.key === b.key;
+};
+
+type AlignmentStep = { item: number | null; gen: number | null };
+
+/**
+ * Longest common subsequence of the two token lists, as steps through both
+ */
+const alignTokens = (itemTokens: DiffToken[], genTokens: DiffToken[]): AlignmentStep[] => {
+  const rows = itemTokens.length;
+  const cols = genTokens.length;
+  // lengths[i][j] = LCS length of itemTokens[i..] and genTokens[j..]
+  const lengths = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = tokensEqual(itemTokens[i], genTokens[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const steps: AlignmentStep[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && tokensEqual(itemTokens[i], genTokens[j])) {
+      steps.push({ item: i++, gen: j++ });
+    } else if (j >= cols || (i < rows && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      steps.push({ item: i++, gen: null });
+    } else {
+      steps.push({ item: null, gen: j++ });
+    }
+  }
+  return steps;
+};
+
+// A number with the unit word right after it, for the mismatch summary
+const withUnit = (tokens: DiffToken[], index: number): string => {
+  const next = tokens[index + 1];
+  return next && next.value === null && next.separatorBefore.trim() === '' ? `${tokens[index].text} ${next.text}` : tokens[index].text;
+};
+
+/**
+ * Align two descriptions token by token. Unmatched numbers in the same gap between
+ * matching tokens are paired up as number mismatches ("5 ML" vs "3 ML").
+ */
+export const alignDescriptions = (
+  itemMasterDescription: string,
+  genConsumableDescription: string,
+  synonyms: SynonymTable = EMPTY_SYNONYM_TABLE
+): DescriptionAlignment => {
+  const item = tokenize(itemMasterDescription, synonyms);
+  const gen = tokenize(genConsumableDescription, synonyms);
+  const itemKinds = new Array<DiffSegmentKind>(item.tokens.length).fill('deleted');
+  const genKinds = new Array<DiffSegmentKind>(gen.tokens.length).fill('inserted');
+  const numberMismatches: NumberMismatch[] = [];
+
+  let gapItemNumbers: number[] = [];
+  let gapGenNumbers: number[] = [];
+  const closeGap = () => {
+    gapItemNumbers.forEach((itemIndex, idx) => {
+      const genIndex = gapGenNumbers[idx];
+      if (genIndex === undefined) return;
+      itemKinds[itemIndex] = 'numberMismatch';
+      genKinds[genIndex] = 'numberMismatch';
+      numberMismatches.push({ itemMaster: withUnit(item.tokens, itemIndex), genConsumable: withUnit(gen.tokens, genIndex) });
+    });
+    gapItemNumbers = [];
+    gapGenNumbers = [];
+  };
+
+  alignTokens(item.tokens, gen.tokens).forEach(step => {
+    if (step.item !== null && step.gen !== null) {
+      closeGap();
+      itemKinds[step.item] = 'equal';
+      genKinds[step.gen] = 'equal';
+    } else if (step.item !== null) {
+      if (item.tokens[step.item].value !== null) gapItemNumbers.push(step.item);
+    } else if (step.gen !== null && gen.tokens[step.gen].value !== null) {
+      gapGenNumbers.push(step.gen);
+    }
+  });
+  closeGap();
+
+  const toSegments = ({ tokens, trailing }: ReturnType<typeof tokenize>, kinds: DiffSegmentKind[]): DiffSegment[] => {
+    const segments: DiffSegment[] = [];
+    tokens.forEach((token, idx) => {
+      if (token.separatorBefore) segments.push({ text: token.separatorBefore, kind: 'separator' });
+      segments.push({ text: token.text, kind: kinds[idx] });
+    });
+    if (trailing) segments.push({ text: trailing, kind: 'separator' });
+    return segments;
+  };
+
+  return {
+    itemMaster: toSegments(item, itemKinds),
+    genConsumable: toSegments(gen, genKinds),
+    numberMismatches,
+  };
+};
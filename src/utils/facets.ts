@@ -0,0 +1,104 @@
+import { MappingSide } from './columnMapping';
+import { MatchSummary } from './matcher';
+
+export type FacetId = 'itemType' | 'businessUnit' | 'manufacturer' | 'forecasted' | 'itemUom' | 'tenderCategory' | 'tenderUom';
+
+export interface FacetDefinition {
+  id: FacetId;
+  label: string;
+  side: MappingSide;
+  valueOf: (match: MatchSummary) => string | undefined;
+}
+
+export interface FacetValueCount {
+  value: string;
+  count: number; // matches with this value that pass every other facet
+}
+
+/**
+ * Selected values per facet; a match passes when it has one of the selected values
+ * of every facet with a selection
+ */
+export type FacetSelection = Partial<Record<FacetId, string[]>>;
+
+export type FacetCounts = Record<FacetId, FacetValueCount[]>;
+
+export const UNSPECIFIED_FACET_VALUE = 'Unspecified';
+
+export const FACETS: FacetDefinition[] = [
+  { id: 'itemType', label: 'Item Type', side: 'itemMaster', valueOf: m => m.itemMasterRecord.itemType },
+  { id: 'businessUnit', label: 'Business Unit', side: 'itemMaster', valueOf: m => m.itemMasterRecord.category },
+  { id: 'manufacturer', label: 'Manufacturer', side: 'itemMaster', valueOf: m => m.itemMasterRecord.manufacturer },
+  { id: 'forecasted', label: 'Forecasted', side: 'itemMaster', valueOf: m => m.itemMasterRecord.forecasted },
+  { id: 'itemUom', label: 'Item UOM', side: 'itemMaster', valueOf: m => m.itemMasterRecord.uom },
+  { id: 'tenderCategory', label: 'Group Category', side: 'genConsumable', valueOf: m => m.genConsumableRecord.category },
+  { id: 'tenderUom', label: 'Tender UOM', side: 'genConsumable', valueOf: m => m.genConsumableRecord.uom },
+];
+
+export const getFacetValue = (facet: FacetDefinition, match: MatchSummary): string => {
+  return String(facet.valueOf(match) ?? '').trim() || UNSPECIFIED_FACET_VALUE;
+};
+
+const activeFacets = (selection: FacetSelection) => {
+  return FACETS.filter(facet => (selection[facet.id]?.length ?? 0) > 0).map(facet => ({
+    facet,
+    values: new Set(selection[facet.id]),
+  }));
+};
+
+export const hasFacetSelection = (selection: FacetSelection): boolean => activeFacets(selection).length > 0;
+
+/**
+ * Matches that pass every facet with a selection
+ */
+export const filterByFacets = <T extends MatchSummary>(matches: T[], selection: FacetSelection): T[] => {
+  const active = activeFacets(selection);
+  if (active.length === 0) return matches;
+  return matches.filter(match => active.every(({ facet, values }) => values.has(getFacetValue(facet, match))));
+};
+
+/**
+ * Value counts per facet, most common first. Each facet is counted over the matches that
+ * pass the other facets, so its counts show what selecting another value would add.
+ * Selected values stay listed even when no match has them any more.
+ */
+export const countFacetValues = (matches: MatchSummary[], selection: FacetSelection): FacetCounts => {
+  const active = activeFacets(selection);
+  const counts = Object.fromEntries(FACETS.map(facet => [facet.id, new Map<string, number>()])) as Record<
+    FacetId,
+    Map<string, number>
+  >;
+
+  matches.forEach(match => {
+    const failed = active.filter(({ facet, values }) => !values.has(getFacetValue(facet, match)));
+    if (failed.length > 1) return;
+    FACETS.forEach(facet => {
+      // With one failing facet, the match only counts towards that facet
+      if (failed.length === 1 && failed[0].facet !== facet) return;
+      const value = getFacetValue(facet, match);
+      counts[facet.id].set(value, (counts[facet.id].get(value) ?? 0) + 1);
+    });
+  });
+
+  return Object.fromEntries(
+    FACETS.map(facet => {
+      const facetCounts = counts[facet.id];
+      selection[facet.id]?.forEach(value => {
+        if (!facetCounts.has(value)) facetCounts.set(value, 0);
+      });
+      const sorted = Array.from(facetCounts, ([value, count]) => ({ value, count })).sort(
+        (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+      );
+      return [facet.id, sorted];
+    })
+  ) as FacetCounts;
+};
+
+/**
+ * "Item Type: MFG, TRD; Tender UOM: BOX" for export settings
+ */
+export const describeFacetSelection = (selection: FacetSelection): string => {
+  return activeFacets(selection)
+    .map(({ facet }) => `${facet.label}: ${(selection[facet.id] ?? []).join(', ')}`)
+    .join('; ');
+};
@@ -21,18 +21,174 @@ export interface GenConsumableRow {
   'INITIAL QUANTITY': string | number;
 }
 
-export const parseExcelFile = async (file: File): Promise<ItemMasterRow[] | GenConsumableRow[]> => {
+export interface ParseWarning {
+  row: number; // 1-based data row (header excluded)
+  column: string;
+  value: string;
+  message: string;
+}
+
+/**
+ * A file's first sheet as uploaded: every non-empty row in file order with its cells
+ * untouched, header row first. Kept for exports that must reproduce the file's layout.
+ */
+export interface RawSheet {
+  cells: string[][];
+  sourceRows: number[]; // row of cells each parsed row came from
+}
+
+export interface ParseResult<T> {
+  rows: T[];
+  warnings: ParseWarning[];
+  sheet?: RawSheet; // for files, not for rows sent as JSON
+}
+
+export const SUPPORTED_UPLOAD_EXTENSIONS = ['.csv', '.xlsx', '.xls'];
+
+// Columns whose values are coerced to numbers (e.g. "INITIAL QUANTITY", "SN")
+const NUMERIC_HEADER_PATTERN = /^(sn|s\.?\s?no\.?)$|\b(qty|quantity|price|amount)\b/i;
+
+/**
+ * Normalize a header: strip BOM and collapse internal whitespace/newlines
+ * ("GROUP\nCATEGORY" -> "GROUP CATEGORY")
+ */
+export const normalizeHeader = (header: string): string => {
+  return header
+    .replace(/^\uFEFF/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Parse a number written with any common digit grouping:
+ * "13,38,072" (Indian), "1,234,567.89", "1.234.567,89", "1 234", "12,5"
+ * Returns null if the value is not a number.
+ */
+export const parseLocaleNumber = (value: string | number): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+
+  let text = value.replace(/[\s\u00A0\u202F']/g, '');
+  if (!text) return null;
+
+  const negative = /^-|^\(.*\)$/.test(text);
+  text = text.replace(/^[-+(]|\)$/g, '');
+  if (!/^[\d.,]+$/.test(text)) return null;
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    // Both separators present: whichever comes last is the decimal separator
+    const decimalSeparator = lastComma > lastDot ? ',' : '.';
+    const groupSeparator = decimalSeparator === ',' ? '.' : ',';
+    text = text.split(groupSeparator).join('').replace(decimalSeparator, '.');
+  } else if (lastComma >= 0) {
+    const groups = text.split(',');
+    const isGrouping = groups.length > 2 || groups[groups.length - 1].length === 3;
+    text = isGrouping ? groups.join('') : groups.join('.');
+  } else if (lastDot >= 0 && text.indexOf('.') !== lastDot) {
+    // Several dots can only be grouping ("1.234.567")
+    text = text.split('.').join('');
+  }
+
+  if (!/^\d*\.?\d+$|^\d+\.$/.test(text)) return null;
+  const parsed = Number(text);
+  if (!Number.isFinite(parsed)) return null;
+  return negative ? -parsed : parsed;
+};
+
+/**
+ * Detect header rows repeated mid-file (e.g. at page breaks of exported tender lists)
+ */
+const isRepeatedHeaderRow = (rawRow: Record<string, unknown>): boolean => {
+  const keys = Object.keys(rawRow);
+  const repeated = keys.filter(key => normalizeHeader(String(rawRow[key] ?? '')) === normalizeHeader(key));
+  return keys.length > 1 && repeated.length >= keys.length / 2;
+};
+
+/**
+ * Normalize headers and coerce numeric columns, collecting per-row warnings.
+ * Also used for rows that arrive as JSON rather than as a file. cells are the file's
+ * rows as read, header first, so that rawRows[i] is cells[i + 1].
+ */
+export const normalizeParsedRows = <T>(
+  rawRows: Record<string, unknown>[],
+  initialWarnings: ParseWarning[] = [],
+  cells?: string[][]
+): ParseResult<T> => {
+  const warnings = [...initialWarnings];
+  const rows: T[] = [];
+  const sourceRows: number[] = [];
+
+  rawRows.forEach((rawRow, index) => {
+    if (isRepeatedHeaderRow(rawRow)) {
+      warnings.push({ row: index + 1, column: '', value: '', message: 'Skipped repeated header row' });
+      return;
+    }
+
+    const row: Record<string, unknown> = {};
+    Object.keys(rawRow).forEach(key => {
+      const header = normalizeHeader(key);
+      const value = rawRow[key];
+      const text = typeof value === 'string' ? value.trim() : value;
+
+      if (NUMERIC_HEADER_PATTERN.test(header) && text !== '' && text !== undefined && text !== null) {
+        const parsed = parseLocaleNumber(text as string | number);
+        if (parsed === null) {
+          warnings.push({
+            row: index + 1,
+            column: header,
+            value: String(text),
+            message: `Could not parse "${String(text)}" as a number`,
+          });
+          row[header] = text;
+        } else {
+          row[header] = parsed;
+        }
+      } else {
+        row[header] = text;
+      }
+    });
+    rows.push(row as T);
+    sourceRows.push(index + 1);
+  });
+
+  return { rows, warnings, sheet: cells && { cells, sourceRows } };
+};
+
+const toPapaWarnings = (errors: Papa.ParseError[]): ParseWarning[] => {
+  return errors.map(error => ({
+    row: (error.row ?? -1) + 1,
+    column: '',
+    value: '',
+    message: error.message,
+  }));
+};
+
+const parseWorkbook = <T>(workbook: XLSX.WorkBook): ParseResult<T> => {
+  const sheetName = workbook.SheetNames[0];
+  const worksheet = workbook.Sheets[sheetName];
+  // raw: false keeps codes like "1-10504-0" as formatted text instead of numbers/dates.
+  // Both reads skip blank rows, so data row i is cells row i + 1.
+  const rawRows = XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet, { raw: false, defval: '', blankrows: false });
+  const cells = XLSX.utils.sheet_to_json<string[]>(worksheet, { header: 1, raw: false, defval: '', blankrows: false });
+  return normalizeParsedRows<T>(rawRows, [], cells);
+};
+
+const getFileExtension = (fileName: string): string => fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+
+const unsupportedFileType = (extension: string): Error => {
+  return new Error(`Unsupported file type "${extension}". Please upload a ${SUPPORTED_UPLOAD_EXTENSIONS.join(', ')} file.`);
+};
+
+export const parseExcelFile = async <T extends ItemMasterRow | GenConsumableRow>(file: File): Promise<ParseResult<T>> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     
     reader.onload = (e) => {
       try {
         const data = e.target?.result;
-        const workbook = XLSX.read(data, { type: 'binary' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet) as ItemMasterRow[] | GenConsumableRow[];
-        resolve(jsonData);
+        resolve(parseWorkbook<T>(XLSX.read(data, { type: 'binary' })));
       } catch (error) {
         reject(error);
       }
@@ -43,44 +199,84 @@ export const parseExcelFile = async (file: File): Promise<ItemMasterRow[] | GenC
   });
 };
 
-export const loadExcelFromPath = async <T extends ItemMasterRow | GenConsumableRow>(path: string): Promise<T[]> => {
+const PAPA_CONFIG = {
+  header: true,
+  skipEmptyLines: true,
+  dynamicTyping: false,
+  transformHeader: (header: string) => normalizeHeader(header),
+  transform: (value: string) => value.trim(),
+} as const;
+
+export const parseCSVFile = async <T extends ItemMasterRow | GenConsumableRow>(file: File): Promise<ParseResult<T>> => {
+  return parseCSVText<T>(await file.text(), file.name);
+};
+
+/**
+ * Parse a user-supplied CSV, XLSX or XLS file based on its extension
+ */
+export const parseUploadedFile = async <T extends ItemMasterRow | GenConsumableRow>(file: File): Promise<ParseResult<T>> => {
+  const extension = getFileExtension(file.name);
+  if (extension === '.csv') return parseCSVFile<T>(file);
+  if (extension === '.xlsx' || extension === '.xls') return parseExcelFile<T>(file);
+  throw unsupportedFileType(extension);
+};
+
+/**
+ * Parse a CSV, XLSX or XLS file already read into memory: request bodies on the server, fetched samples
+ */
+export const parseFileContent = async <T extends ItemMasterRow | GenConsumableRow>(
+  fileName: string,
+  content: ArrayBuffer
+): Promise<ParseResult<T>> => {
+  const extension = getFileExtension(fileName);
+  if (extension === '.csv') return parseCSVText<T>(new TextDecoder().decode(content), fileName);
+  if (extension === '.xlsx' || extension === '.xls') {
+    return parseWorkbook<T>(XLSX.read(content, { type: 'array' }));
+  }
+  throw unsupportedFileType(extension);
+};
+
+export const loadExcelFromPath = async <T extends ItemMasterRow | GenConsumableRow>(path: string): Promise<ParseResult<T>> => {
   try {
     const response = await fetch(path);
     const arrayBuffer = await response.arrayBuffer();
-    const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-    const sheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[sheetName];
-    const jsonData = XLSX.utils.sheet_to_json(worksheet) as T[];
-    return jsonData;
+    return parseWorkbook<T>(XLSX.read(arrayBuffer, { type: 'array' }));
   } catch (error) {
     console.error('Error loading Excel file:', error);
     throw error;
   }
 };
 
-export const loadCSVFromPath = async <T extends ItemMasterRow | GenConsumableRow>(path: string): Promise<T[]> => {
+/**
+ * Parse CSV text already in memory; sourceName is only used for logging
+ */
+export const parseCSVText = async <T extends ItemMasterRow | GenConsumableRow>(
+  text: string,
+  sourceName: string
+): Promise<ParseResult<T>> => {
+  // Use Papa Parse for robust CSV parsing (handles multi-line fields, quotes, etc.).
+  // The cells are read first, as is; both parses skip the same empty lines.
+  const cells = Papa.parse<string[]>(text, { header: false, skipEmptyLines: true }).data;
+  return new Promise((resolve, reject) => {
+    Papa.parse<Record<string, unknown>>(text, {
+      ...PAPA_CONFIG,
+      complete: (results) => {
+        console.log(`Parsed ${results.data.length} rows from ${sourceName}`);
+        resolve(normalizeParsedRows<T>(results.data, toPapaWarnings(results.errors), cells));
+      },
+      error: (error: Error) => {
+        console.error('Papa Parse error:', error);
+        reject(error);
+      }
+    });
+  });
+};
+
+export const loadCSVFromPath = async <T extends ItemMasterRow | GenConsumableRow>(path: string): Promise<ParseResult<T>> => {
   try {
     const response = await fetch(path);
     const text = await response.text();
-    
-    // Use Papa Parse for robust CSV parsing (handles multi-line fields, quotes, etc.)
-    return new Promise((resolve, reject) => {
-      Papa.parse(text, {
-        header: true,
-        skipEmptyLines: true,
-        dynamicTyping: false,
-        transformHeader: (header: string) => header.trim(),
-        transform: (value: string) => value.trim(),
-        complete: (results) => {
-          console.log(`Parsed ${results.data.length} rows from ${path}`);
-          resolve(results.data as T[]);
-        },
-        error: (error: Error) => {
-          console.error('Papa Parse error:', error);
-          reject(error);
-        }
-      });
-    });
+    return await parseCSVText<T>(text, path);
   } catch (error) {
     console.error('Error loading CSV file:', error);
     throw error;
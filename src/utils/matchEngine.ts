@@ -0,0 +1,437 @@
+import { ItemMasterRow, GenConsumableRow } from './fileParser';
+import { MatchRecord } from './columnMapping';
+import { DEFAULT_SCORER, SCORERS, ScorerId, ScorerText } from './scorers';
+import {
+  compareAttributes,
+  extractAttributes,
+  AttributeMode,
+  MedicalAttributes,
+  ATTRIBUTE_CONFLICT_PENALTY,
+} from './medicalAttributes';
+import { applySynonyms, EMPTY_SYNONYM_TABLE, SynonymTable } from './synonyms';
+
+/**
+ * Clean and normalize string for better matching, expanding abbreviations from the synonym table
+ */
+export const normalizeString = (str: string, synonyms: SynonymTable = EMPTY_SYNONYM_TABLE): string => {
+  if (!str) return '';
+  return applySynonyms(str, synonyms)
+    .trim()
+    .replace(/\s+/g, ' ')
+    .replace(/[^\w\s]/g, '');
+};
+
+/**
+ * Extract meaningful tokens from description
+ */
+export const extractTokens = (text: string, synonyms: SynonymTable = EMPTY_SYNONYM_TABLE): Set<string> => {
+  const normalized = normalizeString(text, synonyms);
+  const tokens = normalized.split(/\s+/).filter(token => token.length >= 3);
+  return new Set(tokens);
+};
+
+/**
+ * Descriptions pre-processed into a compact form that can be transferred to workers.
+ * Tokens of record i are tokenIds[tokenOffsets[i] .. tokenOffsets[i + 1]), sorted ascending.
+ */
+export interface EncodedDescriptions {
+  indices: Int32Array; // position of each record in the original data
+  normalized: string[];
+  attributes: MedicalAttributes[]; // parsed from the raw description
+  tokenOffsets: Int32Array;
+  tokenIds: Int32Array;
+}
+
+/**
+ * Candidate pairs found by the matcher, as parallel arrays of record indices and scores
+ */
+export interface MatchPairs {
+  itemIndices: number[];
+  genIndices: number[];
+  scores: number[];
+}
+
+export const createMatchPairs = (): MatchPairs => ({ itemIndices: [], genIndices: [], scores: [] });
+
+/**
+ * Normalize and tokenize records once, mapping tokens to ids from a shared vocabulary
+ */
+export const encodeDescriptions = (
+  records: MatchRecord[],
+  vocabulary: Map<string, number>,
+  synonyms: SynonymTable = EMPTY_SYNONYM_TABLE
+): EncodedDescriptions => {
+  const indices: number[] = [];
+  const normalized: string[] = [];
+  const attributes: MedicalAttributes[] = [];
+  const tokenOffsets: number[] = [0];
+  const tokenIds: number[] = [];
+
+  records.forEach((record, idx) => {
+    const normalizedDesc = normalizeString(record.description, synonyms);
+    const tokens = extractTokens(record.description, synonyms);
+    if (normalizedDesc.length === 0 || tokens.size === 0) return;
+
+    const ids: number[] = [];
+    tokens.forEach(token => {
+      let id = vocabulary.get(token);
+      if (id === undefined) {
+        id = vocabulary.size;
+        vocabulary.set(token, id);
+      }
+      ids.push(id);
+    });
+    ids.sort((a, b) => a - b);
+
+    indices.push(idx);
+    normalized.push(normalizedDesc);
+    attributes.push(extractAttributes(record.description));
+    tokenIds.push(...ids);
+    tokenOffsets.push(tokenIds.length);
+  });
+
+  return {
+    indices: Int32Array.from(indices),
+    normalized,
+    attributes,
+    tokenOffsets: Int32Array.from(tokenOffsets),
+    tokenIds: Int32Array.from(tokenIds),
+  };
+};
+
+/**
+ * Copy records [start, end) into a standalone EncodedDescriptions (safe to transfer)
+ */
+export const sliceEncodedDescriptions = (
+  encoded: EncodedDescriptions,
+  start: number,
+  end: number
+): EncodedDescriptions => {
+  const tokenStart = encoded.tokenOffsets[start];
+  const tokenEnd = encoded.tokenOffsets[end];
+  return {
+    indices: encoded.indices.slice(start, end),
+    normalized: encoded.normalized.slice(start, end),
+    attributes: encoded.attributes.slice(start, end),
+    tokenOffsets: encoded.tokenOffsets.slice(start, end + 1).map(offset => offset - tokenStart),
+    tokenIds: encoded.tokenIds.slice(tokenStart, tokenEnd),
+  };
+};
+
+export const getTransferables = (encoded: EncodedDescriptions): ArrayBuffer[] => [
+  encoded.indices.buffer as ArrayBuffer,
+  encoded.tokenOffsets.buffer as ArrayBuffer,
+  encoded.tokenIds.buffer as ArrayBuffer,
+];
+
+/**
+ * Calculate token overlap score (fast pre-filter) on sorted token id ranges
+ */
+const calculateTokenOverlap = (
+  tokens1: Int32Array,
+  start1: number,
+  end1: number,
+  tokens2: Int32Array,
+  start2: number,
+  end2: number
+): number => {
+  const size1 = end1 - start1;
+  const size2 = end2 - start2;
+  if (size1 === 0 || size2 === 0) return 0;
+
+  let overlap = 0;
+  let i = start1;
+  let j = start2;
+  while (i < end1 && j < end2) {
+    if (tokens1[i] === tokens2[j]) {
+      overlap++;
+      i++;
+      j++;
+    } else if (tokens1[i] < tokens2[j]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  const union = size1 + size2 - overlap;
+  return union > 0 ? (overlap / union) : 0;
+};
+
+export type CandidateStrategy = 'invertedIndex' | 'linearScan';
+
+/**
+ * Inverted index from token id to the consumables containing it, with IDF weights.
+ * Postings of token t are postings[postingOffsets[t] .. postingOffsets[t + 1]).
+ */
+export interface CandidateIndex {
+  postingOffsets: Int32Array;
+  postings: Int32Array;
+  idf: Float64Array;
+}
+
+// Tokens found in more than this share of tender lines ("sterile", "disposable", ...)
+// are too common to generate candidates on their own. On the bundled files this keeps
+// every pair scoring >= 70% (see `npm run benchmark`).
+const MAX_CANDIDATE_TOKEN_FREQUENCY = 0.1;
+const MIN_CANDIDATE_IDF = Math.log(1 / MAX_CANDIDATE_TOKEN_FREQUENCY);
+const MAX_CANDIDATES_PER_ITEM = 300;
+
+// Up to this many item/line pairs every tender line is scanned for each item. The scan
+// still skips pairs of very different length or under 15% shared tokens, and moves to
+// the next item once one line scores 98% or more.
+export const LINEAR_SCAN_MAX_PAIRS = 50000000;
+// The inverted index misses pairs below this score, those whose shared tokens are all
+// common ones; on the bundled files it finds 80% of them at 50% (npm run benchmark)
+export const INDEX_CANDIDATE_THRESHOLD = 70;
+
+/**
+ * How to collect candidates down to minThreshold: runs small enough are scanned in full,
+ * larger ones use the index and cannot collect below INDEX_CANDIDATE_THRESHOLD
+ */
+export const getCandidatePlan = (itemCount: number, lineCount: number, minThreshold: number) => {
+  return itemCount * lineCount <= LINEAR_SCAN_MAX_PAIRS
+    ? { candidateStrategy: 'linearScan' as CandidateStrategy, candidateThreshold: minThreshold }
+    : { candidateStrategy: 'invertedIndex' as CandidateStrategy, candidateThreshold: Math.max(minThreshold, INDEX_CANDIDATE_THRESHOLD) };
+};
+
+const getDocumentFrequency = (consumables: EncodedDescriptions): Int32Array => {
+  let vocabularySize = 0;
+  consumables.tokenIds.forEach(id => {
+    if (id + 1 > vocabularySize) vocabularySize = id + 1;
+  });
+
+  const documentFrequency = new Int32Array(vocabularySize);
+  consumables.tokenIds.forEach(id => documentFrequency[id]++);
+  return documentFrequency;
+};
+
+/**
+ * Inverse document frequency of each token id over the tender lines. Tokens no tender
+ * line has (ids of Item Master-only tokens) are rarer than any that occur, so they get
+ * the highest weight rather than none.
+ */
+export const computeIdf = (consumables: EncodedDescriptions): Float64Array => {
+  const genCount = consumables.normalized.length;
+  return Float64Array.from(getDocumentFrequency(consumables), df => Math.log(df > 0 ? genCount / df : genCount + 1));
+};
+
+/**
+ * Build the token -> consumables index used for candidate generation
+ */
+export const buildCandidateIndex = (consumables: EncodedDescriptions): CandidateIndex => {
+  const genCount = consumables.normalized.length;
+  const documentFrequency = getDocumentFrequency(consumables);
+  const vocabularySize = documentFrequency.length;
+
+  const postingOffsets = new Int32Array(vocabularySize + 1);
+  for (let t = 0; t < vocabularySize; t++) {
+    postingOffsets[t + 1] = postingOffsets[t] + documentFrequency[t];
+  }
+
+  const postings = new Int32Array(consumables.tokenIds.length);
+  const cursor = postingOffsets.slice(0, vocabularySize);
+  for (let j = 0; j < genCount; j++) {
+    for (let k = consumables.tokenOffsets[j]; k < consumables.tokenOffsets[j + 1]; k++) {
+      postings[cursor[consumables.tokenIds[k]]++] = j;
+    }
+  }
+
+  return { postingOffsets, postings, idf: computeIdf(consumables) };
+};
+
+/**
+ * Everything a worker (or the inline matcher) needs besides the descriptions themselves
+ */
+export interface MatchContext {
+  scorer: ScorerId;
+  attributeMode: AttributeMode;
+  idf: Float64Array;
+  index: CandidateIndex | null;
+}
+
+export const createMatchContext = (
+  consumables: EncodedDescriptions,
+  candidateStrategy: CandidateStrategy = 'invertedIndex',
+  scorer: ScorerId = DEFAULT_SCORER,
+  attributeMode: AttributeMode = 'off'
+): MatchContext => {
+  const index = candidateStrategy === 'invertedIndex' ? buildCandidateIndex(consumables) : null;
+  return { scorer, attributeMode, index, idf: index ? index.idf : computeIdf(consumables) };
+};
+
+export const getScorerText = (encoded: EncodedDescriptions, position: number): ScorerText => ({
+  normalized: encoded.normalized[position],
+  tokenIds: encoded.tokenIds.subarray(encoded.tokenOffsets[position], encoded.tokenOffsets[position + 1]),
+});
+
+/**
+ * Map original record indices to their position in the encoded data (-1 if skipped)
+ */
+export const getEncodedPositions = (encoded: EncodedDescriptions, recordCount: number): Int32Array => {
+  const positions = new Int32Array(recordCount).fill(-1);
+  encoded.indices.forEach((recordIndex, position) => { positions[recordIndex] = position; });
+  return positions;
+};
+
+/**
+ * Consumables sharing at least one rare token with item i, best IDF-weighted overlap first,
+ * returned in ascending consumable order
+ */
+const collectCandidates = (
+  index: CandidateIndex,
+  items: EncodedDescriptions,
+  i: number,
+  weights: Float64Array,
+  touched: number[]
+): number[] => {
+  touched.length = 0;
+  const vocabularySize = index.idf.length;
+
+  for (let k = items.tokenOffsets[i]; k < items.tokenOffsets[i + 1]; k++) {
+    const token = items.tokenIds[k];
+    // Items are encoded first, so most item-only tokens have ids inside the index with no
+    // postings, and add no candidates despite their high idf. The id check covers tokens
+    // numbered past the last tender token.
+    if (token >= vocabularySize) continue;
+    const weight = index.idf[token];
+    if (weight < MIN_CANDIDATE_IDF) continue;
+
+    for (let p = index.postingOffsets[token]; p < index.postingOffsets[token + 1]; p++) {
+      const j = index.postings[p];
+      if (weights[j] === 0) touched.push(j);
+      weights[j] += weight;
+    }
+  }
+
+  let candidates = touched;
+  if (touched.length > MAX_CANDIDATES_PER_ITEM) {
+    candidates = [...touched].sort((a, b) => weights[b] - weights[a]).slice(0, MAX_CANDIDATES_PER_ITEM);
+  }
+  const ordered = Int32Array.from(candidates).sort();
+  touched.forEach(j => { weights[j] = 0; });
+  return Array.from(ordered);
+};
+
+/**
+ * Score items [start, end) against consumables, appending pairs above threshold.
+ * With an index only consumables sharing a rare token are considered; without one
+ * every consumable is scanned. Pairs with conflicting attributes (5 ML vs 3 ML) are
+ * penalized or dropped depending on the attribute mode. Shared by the worker pool
+ * and the main-thread fallback.
+ */
+export const matchEncodedRange = (
+  items: EncodedDescriptions,
+  consumables: EncodedDescriptions,
+  start: number,
+  end: number,
+  minThreshold: number,
+  pairs: MatchPairs,
+  { scorer, attributeMode, idf, index }: MatchContext
+): void => {
+  const genCount = consumables.normalized.length;
+  const scoreFn = SCORERS[scorer].score;
+  const allConsumables = index ? [] : Array.from({ length: genCount }, (_, j) => j);
+  const weights = new Float64Array(genCount);
+  const touched: number[] = [];
+
+  for (let i = start; i < end; i++) {
+    const itemDesc = items.normalized[i];
+    const itemText = getScorerText(items, i);
+    const itemTokenStart = items.tokenOffsets[i];
+    const itemTokenEnd = items.tokenOffsets[i + 1];
+    const candidates = index ? collectCandidates(index, items, i, weights, touched) : allConsumables;
+
+    for (const j of candidates) {
+      const genDesc = consumables.normalized[j];
+
+      // OPTIMIZATION 1: Token-based pre-filtering - only compare if significant token overlap
+      // Quick length check first (fastest filter)
+      const lengthRatio = Math.min(itemDesc.length, genDesc.length) / Math.max(itemDesc.length, genDesc.length);
+      if (lengthRatio < 0.3) continue; // Skip if length difference is too large
+
+      // Token overlap check (still fast, much faster than full string comparison)
+      const tokenOverlap = calculateTokenOverlap(
+        items.tokenIds, itemTokenStart, itemTokenEnd,
+        consumables.tokenIds, consumables.tokenOffsets[j], consumables.tokenOffsets[j + 1]
+      );
+      if (tokenOverlap <= 0.15) continue; // Only compare if at least 15% token overlap
+
+      // OPTIMIZATION 2: Only do expensive string comparison on filtered candidates
+      let matchPercentage = scoreFn(itemText, getScorerText(consumables, j), idf) * 100;
+      if (matchPercentage < minThreshold) continue;
+
+      // Attributes are only compared for pairs that already pass on text
+      if (attributeMode !== 'off') {
+        const conflictCount = compareAttributes(items.attributes[i], consumables.attributes[j]).length;
+        if (conflictCount > 0) {
+          if (attributeMode === 'reject') continue;
+          matchPercentage = Math.max(0, matchPercentage - conflictCount * ATTRIBUTE_CONFLICT_PENALTY);
+          if (matchPercentage < minThreshold) continue;
+        }
+      }
+
+      pairs.itemIndices.push(items.indices[i]);
+      pairs.genIndices.push(consumables.indices[j]);
+      pairs.scores.push(Math.round(matchPercentage * 100) / 100);
+
+      // OPTIMIZATION 3: Early exit on perfect match
+      if (matchPercentage >= 98) break;
+    }
+  }
+};
+
+export interface PreparedMatchData {
+  items: EncodedDescriptions;
+  consumables: EncodedDescriptions;
+  synonyms: SynonymTable;
+}
+
+/**
+ * Pre-process both sides into encoded descriptions sharing one token vocabulary.
+ * Synonyms are expanded here, so workers only ever see canonical terms.
+ */
+export const prepareMatchData = (
+  itemMasterData: MatchRecord<ItemMasterRow>[],
+  genConsumableData: MatchRecord<GenConsumableRow>[],
+  synonyms: SynonymTable = EMPTY_SYNONYM_TABLE
+): PreparedMatchData => {
+  const vocabulary = new Map<string, number>();
+  return {
+    items: encodeDescriptions(itemMasterData, vocabulary, synonyms),
+    consumables: encodeDescriptions(genConsumableData, vocabulary, synonyms),
+    synonyms,
+  };
+};
+
+// OPTIMIZATION 4: Early exit if we have enough excellent matches
+export const shouldExitEarly = (matchCount: number, maxResults: number, minThreshold: number): boolean => {
+  return matchCount >= maxResults * 3 && minThreshold >= 70;
+};
+
+// Items are scored in fixed-size batches so a cancelled run can resume from any batch
+export const MATCH_BATCH_SIZE = 200;
+
+export const getBatchRange = (batch: number, itemCount: number): [number, number] => {
+  const start = batch * MATCH_BATCH_SIZE;
+  return [start, Math.min(start + MATCH_BATCH_SIZE, itemCount)];
+};
+
+/**
+ * Batch numbers still to be scored, skipping those completed by an earlier run
+ */
+export const getPendingBatches = (itemCount: number, completedBatches: number[] = []): number[] => {
+  const completed = new Set(completedBatches);
+  const batchCount = Math.ceil(itemCount / MATCH_BATCH_SIZE);
+  const pending: number[] = [];
+  for (let batch = 0; batch < batchCount; batch++) {
+    if (!completed.has(batch)) pending.push(batch);
+  }
+  return pending;
+};
+
+export const copyMatchPairs = (pairs: MatchPairs): MatchPairs => ({
+  itemIndices: [...pairs.itemIndices],
+  genIndices: [...pairs.genIndices],
+  scores: [...pairs.scores],
+});
@@ -0,0 +1,303 @@
+import * as XLSX from 'xlsx';
+import { ItemMasterRow, GenConsumableRow, RawSheet } from './fileParser';
+import { MatchRecord } from './columnMapping';
+import { MatchResult } from './matcher';
+import { getTenderLineKey, ReviewDecision } from './reviewStore';
+import { compareUom, convertQuantity } from './uom';
+
+export type CellValue = string | number | null;
+
+export interface ExportSheet {
+  name: string; // at most 31 characters (Excel limit)
+  headers: string[];
+  rows: CellValue[][];
+  colorScaleColumn?: string; // header of a 0-100 column shaded red → yellow → green
+}
+
+/**
+ * Everything a match export needs besides the matches themselves
+ */
+export interface MatchExportData {
+  matches: MatchResult[]; // in display order
+  tenderLines: MatchRecord<GenConsumableRow>[];
+  itemRecords: MatchRecord<ItemMasterRow>[];
+  settings: [string, CellValue][];
+  getReview: (match: MatchResult) => ReviewDecision | undefined;
+  getProbability: (match: MatchResult) => number | null;
+}
+
+const MAX_COLUMN_WIDTH = 60;
+
+// Same bands as the match quality filter
+const COLOR_SCALE_XML = [
+  '<colorScale>',
+  '<cfvo type="num" val="50"/><cfvo type="num" val="70"/><cfvo type="num" val="90"/>',
+  '<color rgb="FFF8696B"/><color rgb="FFFFEB84"/><color rgb="FF63BE7B"/>',
+  '</colorScale>',
+].join('');
+
+// Elements that must follow <conditionalFormatting> in a worksheet (ECMA-376 element order)
+const AFTER_CONDITIONAL_FORMATTING = /<(dataValidations|hyperlinks|printOptions|pageMargins|pageSetup|headerFooter|rowBreaks|colBreaks|ignoredErrors|drawing|legacyDrawing|tableParts|extLst)\b|<\/worksheet>/;
+
+const escapeCsvField = (value: CellValue): string => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * RFC 4180 CSV: fields with commas, quotes or line breaks are quoted, lines end in CRLF
+ */
+export const toCsv = (headers: string[], rows: CellValue[][]): string => {
+  return [headers, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+const datedFilename = (baseName: string, extension: string): string => {
+  return `${baseName}-${new Date().toISOString().split('T')[0]}.${extension}`;
+};
+
+export const downloadCsv = (baseName: string, headers: string[], rows: CellValue[][]) => {
+  // The BOM makes Excel read the file as UTF-8
+  downloadBlob(new Blob(['\uFEFF', toCsv(headers, rows)], { type: 'text/csv;charset=utf-8' }), datedFilename(baseName, 'csv'));
+};
+
+const toWorksheet = ({ headers, rows }: ExportSheet): XLSX.WorkSheet => {
+  const worksheet = XLSX.utils.aoa_to_sheet([headers, ...rows]);
+  worksheet['!cols'] = headers.map((header, col) => {
+    const longest = rows.reduce((max, row) => Math.max(max, String(row[col] ?? '').length), header.length);
+    return { wch: Math.min(longest + 2, MAX_COLUMN_WIDTH) };
+  });
+  if (rows.length > 0) {
+    worksheet['!autofilter'] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length, c: headers.length - 1 } }) };
+  }
+  return worksheet;
+};
+
+/**
+ * The community build of xlsx does not write conditional formatting, so the rule is
+ * added to the worksheet XML of the generated package
+ */
+const addColorScales = (data: ArrayBuffer, sheets: ExportSheet[]): Uint8Array<ArrayBuffer> => {
+  const container = XLSX.CFB.read(new Uint8Array(data), { type: 'array' });
+  sheets.forEach((sheet, idx) => {
+    const col = sheet.colorScaleColumn ? sheet.headers.indexOf(sheet.colorScaleColumn) : -1;
+    if (col < 0 || sheet.rows.length === 0) return;
+    const entry = XLSX.CFB.find(container, `/xl/worksheets/sheet${idx + 1}.xml`);
+    if (!entry) return;
+
+    const ref = XLSX.utils.encode_range({ s: { r: 1, c: col }, e: { r: sheet.rows.length, c: col } });
+    const rule = `<conditionalFormatting sqref="${ref}"><cfRule type="colorScale" priority="1">${COLOR_SCALE_XML}</cfRule></conditionalFormatting>`;
+    const xml = new TextDecoder().decode(entry.content);
+    const insertAt = xml.search(AFTER_CONDITIONAL_FORMATTING);
+    entry.content = new TextEncoder().encode(xml.slice(0, insertAt) + rule + xml.slice(insertAt));
+  });
+  return XLSX.CFB.write(container, { fileType: 'zip', type: 'array' }) as Uint8Array<ArrayBuffer>;
+};
+
+export const buildWorkbook = (sheets: ExportSheet[]): Uint8Array<ArrayBuffer> => {
+  const workbook = XLSX.utils.book_new();
+  sheets.forEach(sheet => XLSX.utils.book_append_sheet(workbook, toWorksheet(sheet), sheet.name));
+  return addColorScales(XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }), sheets);
+};
+
+export const downloadWorkbook = (baseName: string, sheets: ExportSheet[]) => {
+  const blob = new Blob([buildWorkbook(sheets)], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+  downloadBlob(blob, datedFilename(baseName, 'xlsx'));
+};
+
+export const buildMatchesSheet = ({ matches, getReview, getProbability }: MatchExportData): ExportSheet => {
+  return {
+    name: 'Matches',
+    colorScaleColumn: 'Match %',
+    headers: [
+      'Match %',
+      'Item Code',
+      'Item Description',
+      'Item UOM',
+      'NUPCO Code',
+      'Gen Description',
+      'Gen UOM',
+      'Common Words Count',
+      'Common Words',
+      'Only in Item Master Count',
+      'Only in Item Master',
+      'Only in Gen Consumable Count',
+      'Only in Gen Consumable',
+      'Review Status',
+      'Review Note',
+      'Learned Probability %',
+      'UOM Check',
+      'Bid Quantity',
+      'Bid UOM',
+    ],
+    rows: matches.map(m => [
+      m.matchPercentage,
+      m.itemMasterRecord.code,
+      m.itemMasterDescription,
+      m.itemMasterRecord.uom,
+      m.genConsumableRecord.code,
+      m.genConsumableDescription,
+      m.genConsumableRecord.uom,
+      m.differences.commonWords.length,
+      m.differences.commonWords.join(' | '),
+      m.differences.onlyInItemMaster.length,
+      m.differences.onlyInItemMaster.join(' | '),
+      m.differences.onlyInGenConsumable.length,
+      m.differences.onlyInGenConsumable.join(' | '),
+      getReview(m)?.status ?? '',
+      getReview(m)?.note ?? '',
+      getProbability(m),
+      m.uomCompatibility.note,
+      convertQuantity(m.genConsumableRecord.quantity, m.uomCompatibility),
+      m.uomCompatibility.itemMasterUnit,
+    ]),
+  };
+};
+
+/**
+ * Workbook sheets: all matches, the best match of every tender line, tender lines and
+ * Item Master products without a match, and the settings of the run
+ */
+export const buildMatchExportSheets = (data: MatchExportData): ExportSheet[] => {
+  const { matches, tenderLines, itemRecords, settings } = data;
+
+  // Matches are in display order, so the first one seen for a line is its best
+  const bestByLine = new Map<MatchRecord<GenConsumableRow>, MatchResult>();
+  const matchedItems = new Set<MatchRecord<ItemMasterRow>>();
+  matches.forEach(match => {
+    if (!bestByLine.has(match.genConsumableRecord)) bestByLine.set(match.genConsumableRecord, match);
+    matchedItems.add(match.itemMasterRecord);
+  });
+
+  const bestMatchSheet: ExportSheet = {
+    name: 'Best Match per Line',
+    colorScaleColumn: 'Match %',
+    headers: ['NUPCO Code', 'Tender Description', 'Quantity', 'UOM', 'Match %', 'Item Code', 'Item Description', 'Item UOM', 'Review Status'],
+    rows: tenderLines
+      .filter(line => bestByLine.has(line))
+      .map(line => {
+        const match = bestByLine.get(line) as MatchResult;
+        return [
+          line.code,
+          line.description,
+          line.quantity,
+          line.uom,
+          match.matchPercentage,
+          match.itemMasterRecord.code,
+          match.itemMasterDescription,
+          match.itemMasterRecord.uom,
+          data.getReview(match)?.status ?? '',
+        ];
+      }),
+  };
+
+  const unmatchedLinesSheet: ExportSheet = {
+    name: 'Unmatched Tender Lines',
+    headers: ['NUPCO Code', 'Description', 'Quantity', 'UOM', 'Category'],
+    rows: tenderLines
+      .filter(line => line.description && !bestByLine.has(line))
+      .map(line => [line.code, line.description, line.quantity, line.uom, line.category]),
+  };
+
+  const unmatchedProductsSheet: ExportSheet = {
+    name: 'Unmatched Products',
+    headers: ['Item Code', 'Description', 'UOM', 'Category', 'Manufacturer'],
+    rows: itemRecords
+      .filter(item => item.description && !matchedItems.has(item))
+      .map(item => [item.code, item.description, item.uom, item.category, item.manufacturer]),
+  };
+
+  const settingsSheet: ExportSheet = {
+    name: 'Settings',
+    headers: ['Setting', 'Value'],
+    rows: settings.map(([setting, value]) => [setting, value]),
+  };
+
+  return [buildMatchesSheet(data), bestMatchSheet, unmatchedLinesSheet, unmatchedProductsSheet, settingsSheet];
+};
+
+/**
+ * What we offer for one NUPCO code in the bid submission
+ */
+export interface BidOffer {
+  item: MatchRecord<ItemMasterRow>;
+  unitPrice: number | null;
+}
+
+const BID_OFFER_HEADERS = [
+  'Offered Item Code',
+  'Offered Description',
+  'Manufacturer',
+  'Offered UOM',
+  'Unit Price',
+  'Bid Quantity',
+  'Bid UOM',
+];
+
+const toCellValue = (value: unknown): CellValue => {
+  if (typeof value === 'number') return value;
+  return value === undefined || value === null ? '' : String(value);
+};
+
+const NO_OFFER: CellValue[] = BID_OFFER_HEADERS.map(() => '');
+
+// Offers are keyed by getTenderLineKey; an offer under the bare code covers every line with it
+const toOfferCells = (line: MatchRecord<GenConsumableRow>, offersByLine: Map<string, BidOffer>): CellValue[] => {
+  const offer = offersByLine.get(getTenderLineKey(line.code, line.lineNumber)) ?? offersByLine.get(line.code);
+  if (!offer) return NO_OFFER;
+  const uom = compareUom(offer.item.uom, offer.item.description, line.uom, line.description);
+  return [
+    offer.item.code,
+    offer.item.description,
+    offer.item.manufacturer,
+    offer.item.uom,
+    offer.unitPrice,
+    convertQuantity(line.quantity, uom),
+    uom.itemMasterUnit,
+  ];
+};
+
+/**
+ * The tender file as uploaded, with our offer and the bid quantity in our UOM appended to
+ * every line that has one, for the NUPCO price/offer sheet. sheet holds the upload's raw
+ * cells, so headers, values and repeated header rows come out exactly as they went in;
+ * without it (rows sent as JSON, older sessions) the parsed rows are used instead.
+ */
+export const buildBidTemplateSheet = (
+  tenderLines: MatchRecord<GenConsumableRow>[],
+  offersByLine: Map<string, BidOffer>,
+  sheet?: RawSheet
+): ExportSheet => {
+  if (sheet && sheet.cells.length > 0) {
+    const [tenderHeaders, ...cells] = sheet.cells;
+    const lineBySourceRow = new Map(sheet.sourceRows.map((row, idx) => [row, tenderLines[idx]]));
+    return {
+      name: 'Bid Submission',
+      headers: [...tenderHeaders, ...BID_OFFER_HEADERS],
+      rows: cells.map((row, idx) => {
+        const line = lineBySourceRow.get(idx + 1);
+        return [...tenderHeaders.map((_, col) => row[col] ?? ''), ...(line ? toOfferCells(line, offersByLine) : NO_OFFER)];
+      }),
+    };
+  }
+
+  const tenderHeaders = tenderLines.length > 0 ? Object.keys(tenderLines[0].row) : [];
+  return {
+    name: 'Bid Submission',
+    headers: [...tenderHeaders, ...BID_OFFER_HEADERS],
+    rows: tenderLines.map(line => {
+      const source = line.row as unknown as Record<string, unknown>;
+      return [...tenderHeaders.map(header => toCellValue(source[header])), ...toOfferCells(line, offersByLine)];
+    }),
+  };
+};
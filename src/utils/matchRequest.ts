@@ -0,0 +1,287 @@
+import { ItemMasterRow, GenConsumableRow, normalizeParsedRows, parseFileContent, ParseResult, ParseWarning } from './fileParser';
+import {
+  applyColumnMapping,
+  ColumnMapping,
+  getMappedFields,
+  guessColumnMapping,
+  isColumnMappingComplete,
+  MAPPED_FIELDS,
+  MappingSide,
+  MatchRecord,
+} from './columnMapping';
+import { getCandidatePlan, INDEX_CANDIDATE_THRESHOLD, LINEAR_SCAN_MAX_PAIRS } from './matchEngine';
+import { DEFAULT_SCORER, ScorerId, SCORERS } from './scorers';
+import { AttributeMode, ATTRIBUTE_MODES } from './medicalAttributes';
+import { DEFAULT_SYNONYMS, parseSynonymJson, SynonymEntry } from './synonyms';
+
+export const MATCH_API_LIMITS = {
+  maxFileBytes: 10 * 1024 * 1024, // per uploaded file
+  maxJsonBytes: 25 * 1024 * 1024, // whole JSON body
+  maxItemMasterRows: 50000,
+  maxTenderRows: 20000,
+  maxPairs: 100000000, // Item Master rows × tender lines, as every run blocks the server while it scores
+  maxResults: 10000,
+};
+
+// Two files at the per-file limit plus room for the form fields
+const MAX_MULTIPART_BYTES = 2 * MATCH_API_LIMITS.maxFileBytes + 1024 * 1024;
+
+const MAX_REPORTED_WARNINGS = 50;
+
+export type MatchResponseFormat = 'json' | 'xlsx';
+
+export interface MatchRequestOptions {
+  minThreshold: number;
+  maxResults: number;
+  scorer: ScorerId;
+  attributeMode: AttributeMode;
+  synonyms: SynonymEntry[];
+  assignmentCapacity: number;
+  format: MatchResponseFormat;
+}
+
+/**
+ * One side of a match request, ready for the matcher
+ */
+export interface MatchRequestInput<T> {
+  fileName: string;
+  mapping: ColumnMapping;
+  records: MatchRecord<T>[];
+  warningCount: number;
+  warnings: ParseWarning[]; // the first MAX_REPORTED_WARNINGS
+}
+
+export interface MatchRequest {
+  options: MatchRequestOptions;
+  itemMaster: MatchRequestInput<ItemMasterRow>;
+  genConsumable: MatchRequestInput<GenConsumableRow>;
+}
+
+/**
+ * A match request that cannot be served; status is the HTTP status to answer with
+ */
+export class MatchRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'MatchRequestError';
+    this.status = status;
+    Object.setPrototypeOf(this, MatchRequestError.prototype);
+  }
+}
+
+const SIDE_LABELS: Record<MappingSide, string> = { itemMaster: 'Item Master', genConsumable: 'tender' };
+
+const formatBytes = (bytes: number): string => `${Math.round(bytes / 1024 / 1024)} MB`;
+
+const readNumber = (raw: Record<string, unknown>, key: string, fallback: number, min: number, max: number): number => {
+  const value = raw[key];
+  if (value === undefined || value === null || value === '') return fallback;
+  const number = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw new MatchRequestError(`"${key}" must be a number from ${min} to ${max}`);
+  }
+  return number;
+};
+
+const readChoice = <T extends string>(raw: Record<string, unknown>, key: string, choices: T[], fallback: T): T => {
+  const value = raw[key];
+  if (value === undefined || value === null || value === '') return fallback;
+  if (typeof value !== 'string' || !choices.includes(value as T)) {
+    throw new MatchRequestError(`"${key}" must be one of: ${choices.join(', ')}`);
+  }
+  return value as T;
+};
+
+// Form fields carry objects as JSON text, JSON bodies carry them as they are
+const readObject = (raw: Record<string, unknown>, key: string): unknown => {
+  const value = raw[key];
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new MatchRequestError(`"${key}" is not valid JSON`);
+  }
+};
+
+const readSynonyms = (raw: Record<string, unknown>): SynonymEntry[] => {
+  const value = readObject(raw, 'synonyms');
+  if (value === undefined || value === null) return DEFAULT_SYNONYMS;
+  try {
+    return parseSynonymJson(JSON.stringify(value));
+  } catch (error) {
+    throw new MatchRequestError(`"synonyms": ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Matcher settings of a request; anything left out gets the dashboard's defaults (attribute check off)
+ */
+export const parseMatchOptions = (raw: Record<string, unknown>): MatchRequestOptions => {
+  return {
+    minThreshold: readNumber(raw, 'minThreshold', 70, 0, 100),
+    maxResults: Math.floor(readNumber(raw, 'maxResults', 1000, 1, MATCH_API_LIMITS.maxResults)),
+    scorer: readChoice(raw, 'scorer', Object.keys(SCORERS) as ScorerId[], DEFAULT_SCORER),
+    attributeMode: readChoice(raw, 'attributeMode', ATTRIBUTE_MODES.map(mode => mode.id), 'off'),
+    synonyms: readSynonyms(raw),
+    assignmentCapacity: Math.floor(readNumber(raw, 'assignmentCapacity', 0, 0, 100)),
+    format: readChoice<MatchResponseFormat>(raw, 'format', ['json', 'xlsx'], 'json'),
+  };
+};
+
+/**
+ * Turn parsed rows into matcher records, reading columns by the request's mapping
+ * (e.g. "itemMasterMapping") where given and guessing the rest from the headers
+ */
+const toRequestInput = <T extends ItemMasterRow | GenConsumableRow>(
+  side: MappingSide,
+  fileName: string,
+  { rows, warnings }: ParseResult<T>,
+  raw: Record<string, unknown>
+): MatchRequestInput<T> => {
+  const label = SIDE_LABELS[side];
+  const maxRows = side === 'itemMaster' ? MATCH_API_LIMITS.maxItemMasterRows : MATCH_API_LIMITS.maxTenderRows;
+  if (rows.length === 0) throw new MatchRequestError(`The ${label} data has no rows`);
+  if (rows.length > maxRows) {
+    throw new MatchRequestError(`The ${label} data has ${rows.length} rows; at most ${maxRows} are accepted`, 413);
+  }
+
+  const headers = Object.keys(rows[0]);
+  const mappingKey = `${side}Mapping`;
+  const requested = (readObject(raw, mappingKey) ?? {}) as Partial<Record<string, unknown>>;
+  if (typeof requested !== 'object' || Array.isArray(requested)) {
+    throw new MatchRequestError(`"${mappingKey}" must map fields to column names`);
+  }
+  const mapping = guessColumnMapping(headers, side);
+  getMappedFields(side).forEach(({ key }) => {
+    const column = requested[key];
+    if (column === undefined) return;
+    if (typeof column !== 'string' || (column && !headers.includes(column))) {
+      throw new MatchRequestError(`"${mappingKey}.${key}" must be one of the ${label} columns: ${headers.join(', ')}`);
+    }
+    mapping[key] = column;
+  });
+  if (!isColumnMappingComplete(mapping)) {
+    const missing = MAPPED_FIELDS.filter(({ key, required }) => required && !mapping[key]).map(({ key }) => key);
+    throw new MatchRequestError(`Could not find the ${missing.join(' and ')} column of the ${label} data; set it in "${mappingKey}"`);
+  }
+
+  return {
+    fileName,
+    mapping,
+    records: applyColumnMapping(rows, mapping),
+    warningCount: warnings.length,
+    warnings: warnings.slice(0, MAX_REPORTED_WARNINGS),
+  };
+};
+
+const readUploadedFile = async <T extends ItemMasterRow | GenConsumableRow>(form: FormData, side: MappingSide) => {
+  const file = form.get(side);
+  if (!file || typeof file === 'string') {
+    throw new MatchRequestError(`Upload the ${SIDE_LABELS[side]} file as the "${side}" form field`);
+  }
+  if (file.size > MATCH_API_LIMITS.maxFileBytes) {
+    throw new MatchRequestError(`"${file.name}" is larger than ${formatBytes(MATCH_API_LIMITS.maxFileBytes)}`, 413);
+  }
+  try {
+    return { fileName: file.name, parsed: await parseFileContent<T>(file.name, await file.arrayBuffer()) };
+  } catch (error) {
+    throw new MatchRequestError(`Could not read "${file.name}": ${(error as Error).message}`);
+  }
+};
+
+const readJsonRows = <T>(body: Record<string, unknown>, side: MappingSide): ParseResult<T> => {
+  const rows = body[side];
+  if (!Array.isArray(rows) || !rows.every(row => row && typeof row === 'object' && !Array.isArray(row))) {
+    throw new MatchRequestError(`"${side}" must be a list of row objects keyed by column name`);
+  }
+  return normalizeParsedRows<T>(rows as Record<string, unknown>[]);
+};
+
+// The body is only read once its declared size is known to be within the limit
+const checkContentLength = (request: Request, maxBytes: number, tooLarge: string) => {
+  const header = request.headers.get('content-length');
+  const declaredLength = header === null ? NaN : Number(header);
+  if (!Number.isInteger(declaredLength) || declaredLength < 0) {
+    throw new MatchRequestError('Send the request with a Content-Length header', 411);
+  }
+  if (declaredLength > maxBytes) throw new MatchRequestError(tooLarge, 413);
+};
+
+// Larger runs use the inverted index, which would silently miss pairs under its threshold
+const checkPairCount = (request: MatchRequest): MatchRequest => {
+  const itemCount = request.itemMaster.records.length;
+  const lineCount = request.genConsumable.records.length;
+  const pairs = itemCount * lineCount;
+  if (pairs > MATCH_API_LIMITS.maxPairs) {
+    throw new MatchRequestError(
+      `${itemCount} Item Master rows × ${lineCount} tender lines is more ` +
+        `than ${MATCH_API_LIMITS.maxPairs} pairs; split the tender into smaller requests`,
+      413
+    );
+  }
+  const { minThreshold } = request.options;
+  if (getCandidatePlan(itemCount, lineCount, minThreshold).candidateThreshold > minThreshold) {
+    throw new MatchRequestError(
+      `A "minThreshold" under ${INDEX_CANDIDATE_THRESHOLD} needs at most ${LINEAR_SCAN_MAX_PAIRS} pairs; ` +
+        `${itemCount} Item Master rows × ${lineCount} tender lines is more, so raise it or split the tender`,
+      413
+    );
+  }
+  return request;
+};
+
+/**
+ * Read a match request: either multipart/form-data with "itemMaster" and "genConsumable"
+ * files (CSV, XLSX or XLS) and options as fields, or a JSON body with both as row lists.
+ * The response format may also be chosen with ?format=xlsx.
+ */
+export const readMatchRequest = async (request: Request): Promise<MatchRequest> => {
+  const contentType = request.headers.get('content-type') ?? '';
+  const format = new URL(request.url).searchParams.get('format');
+
+  if (contentType.startsWith('multipart/form-data')) {
+    checkContentLength(request, MAX_MULTIPART_BYTES, `Upload at most ${formatBytes(MATCH_API_LIMITS.maxFileBytes)} per file`);
+    const form = await request.formData().catch(() => {
+      throw new MatchRequestError('The form data could not be read');
+    });
+    const raw: Record<string, unknown> = { format };
+    form.forEach((value, key) => {
+      if (typeof value === 'string') raw[key] = value;
+    });
+    const options = parseMatchOptions(raw);
+    const itemMaster = await readUploadedFile<ItemMasterRow>(form, 'itemMaster');
+    const genConsumable = await readUploadedFile<GenConsumableRow>(form, 'genConsumable');
+    return checkPairCount({
+      options,
+      itemMaster: toRequestInput('itemMaster', itemMaster.fileName, itemMaster.parsed, raw),
+      genConsumable: toRequestInput('genConsumable', genConsumable.fileName, genConsumable.parsed, raw),
+    });
+  }
+
+  if (contentType.startsWith('application/json')) {
+    checkContentLength(request, MATCH_API_LIMITS.maxJsonBytes, `The request body is larger than ${formatBytes(MATCH_API_LIMITS.maxJsonBytes)}`);
+    const text = await request.text();
+    if (text.length > MATCH_API_LIMITS.maxJsonBytes) {
+      throw new MatchRequestError(`The request body is larger than ${formatBytes(MATCH_API_LIMITS.maxJsonBytes)}`, 413);
+    }
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new MatchRequestError('The request body is not valid JSON');
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new MatchRequestError('The request body must be a JSON object');
+    }
+    const raw = { format, ...(body as Record<string, unknown>) };
+    return checkPairCount({
+      options: parseMatchOptions(raw),
+      itemMaster: toRequestInput('itemMaster', 'itemMaster.json', readJsonRows<ItemMasterRow>(raw, 'itemMaster'), raw),
+      genConsumable: toRequestInput('genConsumable', 'genConsumable.json', readJsonRows<GenConsumableRow>(raw, 'genConsumable'), raw),
+    });
+  }
+
+  throw new MatchRequestError('Send multipart/form-data with two files or an application/json body', 415);
+};
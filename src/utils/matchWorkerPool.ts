@@ -0,0 +1,230 @@
+import { ItemMasterRow, GenConsumableRow } from './fileParser';
+import { MatchRecord } from './columnMapping';
+import { buildMatchResults, calculateCoverage, MatchAbortedError, MatchResult, MatchRunOptions } from './matcher';
+import {
+  copyMatchPairs,
+  createMatchContext,
+  createMatchPairs,
+  getBatchRange,
+  getPendingBatches,
+  getTransferables,
+  prepareMatchData,
+  shouldExitEarly,
+  sliceEncodedDescriptions,
+  CandidateStrategy,
+  EncodedDescriptions,
+} from './matchEngine';
+import { DEFAULT_SCORER, ScorerId } from './scorers';
+import { AttributeMode } from './medicalAttributes';
+import { compileSynonyms } from './synonyms';
+
+export type MatchWorkerRequest =
+  | {
+      type: 'init';
+      consumables: EncodedDescriptions;
+      minThreshold: number;
+      candidateStrategy: CandidateStrategy;
+      scorer: ScorerId;
+      attributeMode: AttributeMode;
+    }
+  | { type: 'batch'; batchId: number; items: EncodedDescriptions };
+
+export type MatchWorkerResponse =
+  | {
+      type: 'result';
+      batchId: number;
+      processed: number;
+      itemIndices: Int32Array;
+      genIndices: Int32Array;
+      scores: Float64Array;
+    }
+  | { type: 'error'; message: string };
+
+const DEFAULT_CONCURRENCY = 4;
+
+const getWorkerCount = (batchCount: number): number => {
+  const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency
+    ? navigator.hardwareConcurrency
+    : DEFAULT_CONCURRENCY;
+  return Math.max(1, Math.min(cores, batchCount));
+};
+
+/**
+ * Run the matcher across a pool of Web Workers.
+ * Items are handed out in batches so faster workers pick up more work; each
+ * batch streams its candidate pairs back as soon as it is scored.
+ */
+export const runMatchWorkerPool = (
+  itemMasterData: MatchRecord<ItemMasterRow>[],
+  genConsumableData: MatchRecord<GenConsumableRow>[],
+  minThreshold: number,
+  maxResults: number,
+  onProgress?: (progress: number) => void,
+  {
+    candidateStrategy = 'invertedIndex',
+    scorer = DEFAULT_SCORER,
+    attributeMode = 'off',
+    synonyms = [],
+    assignmentCapacity = 0,
+    onMatchesFound,
+    onCoverage,
+    onCandidates,
+    signal,
+    resumeFrom,
+  }: MatchRunOptions = {}
+): Promise<MatchResult[]> => {
+  return new Promise((resolve, reject) => {
+    console.time('Total Matching Time');
+    const prepared = prepareMatchData(itemMasterData, genConsumableData, compileSynonyms(synonyms));
+    const { items, consumables } = prepared;
+    // Only needed on this thread for the sub-scores of the final results
+    const context = createMatchContext(consumables, 'linearScan', scorer);
+    const itemCount = items.normalized.length;
+    const pairs = resumeFrom ? copyMatchPairs(resumeFrom.pairs) : createMatchPairs();
+    const completedBatches = resumeFrom ? [...resumeFrom.completedBatches] : [];
+    const batches = getPendingBatches(itemCount, completedBatches);
+    const batchSize = (batch: number) => {
+      const [start, end] = getBatchRange(batch, itemCount);
+      return end - start;
+    };
+
+    const workerCount = getWorkerCount(batches.length);
+    const workers: Worker[] = [];
+    let nextBatch = 0;
+    let processed = itemCount - batches.reduce((sum, batch) => sum + batchSize(batch), 0);
+    let settled = false;
+
+    console.log(`Starting match with ${itemCount} items vs ${consumables.normalized.length} consumables on ${workerCount} workers`);
+
+    const terminateAll = () => {
+      workers.forEach(worker => worker.terminate());
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const finish = (partial: boolean) => {
+      if (settled) return;
+      settled = true;
+      terminateAll();
+      if (onCoverage) {
+        onCoverage(calculateCoverage(pairs, itemMasterData.length, genConsumableData.length, partial));
+      }
+      if (onCandidates) onCandidates({ pairs, minThreshold, assignmentCapacity, prepared, context });
+      const results = buildMatchResults(
+        pairs,
+        itemMasterData,
+        genConsumableData,
+        maxResults,
+        prepared,
+        context,
+        assignmentCapacity
+      );
+      console.timeEnd('Total Matching Time');
+      console.log(`Returning top ${results.length} matches`);
+      resolve(results);
+    };
+
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      terminateAll();
+      console.timeEnd('Total Matching Time');
+      reject(error);
+    };
+
+    // Batches still in flight are dropped; they will be re-run on resume
+    function handleAbort() {
+      if (settled) return;
+      console.log(`Matching cancelled after ${completedBatches.length} batches`);
+      fail(new MatchAbortedError({
+        minThreshold,
+        scorer,
+        attributeMode,
+        synonyms,
+        assignmentCapacity,
+        completedBatches,
+        itemCount,
+        pairs,
+      }));
+    }
+
+    const dispatchNext = (worker: Worker) => {
+      if (nextBatch >= batches.length) return;
+      const batchId = batches[nextBatch];
+      const [start, end] = getBatchRange(batchId, itemCount);
+      const batch = sliceEncodedDescriptions(items, start, end);
+      const request: MatchWorkerRequest = { type: 'batch', batchId, items: batch };
+      nextBatch++;
+      worker.postMessage(request, getTransferables(batch));
+    };
+
+    const handleResponse = (worker: Worker, response: MatchWorkerResponse) => {
+      if (settled) return;
+      if (response.type === 'error') {
+        fail(new Error(response.message));
+        return;
+      }
+
+      for (let i = 0; i < response.scores.length; i++) {
+        pairs.itemIndices.push(response.itemIndices[i]);
+        pairs.genIndices.push(response.genIndices[i]);
+        pairs.scores.push(response.scores[i]);
+      }
+      processed += response.processed;
+      completedBatches.push(response.batchId);
+
+      if (onProgress) onProgress(Math.round((processed / itemCount) * 100));
+      if (onMatchesFound) onMatchesFound(pairs.scores.length);
+
+      // The assignment and candidate views need every candidate pair, so they never exit early
+      if (!assignmentCapacity && !onCandidates && shouldExitEarly(pairs.scores.length, maxResults, minThreshold)) {
+        console.log(`Early exit: Found ${pairs.scores.length} matches (target: ${maxResults})`);
+        finish(true);
+        return;
+      }
+
+      if (processed >= itemCount) {
+        console.log(`Processing complete: ${pairs.scores.length} total matches found`);
+        finish(false);
+        return;
+      }
+
+      dispatchNext(worker);
+    };
+
+    if (signal?.aborted) {
+      handleAbort();
+      return;
+    }
+    signal?.addEventListener('abort', handleAbort);
+
+    if (batches.length === 0) {
+      if (onProgress) onProgress(100);
+      finish(false);
+      return;
+    }
+
+    try {
+      for (let w = 0; w < workerCount; w++) {
+        const worker = new Worker(new URL('./matcher.worker.ts', import.meta.url));
+        workers.push(worker);
+        worker.onmessage = (event: MessageEvent<MatchWorkerResponse>) => handleResponse(worker, event.data);
+        worker.onerror = (event: ErrorEvent) => fail(new Error(event.message || 'Matcher worker crashed'));
+
+        // Each worker needs its own copy of the consumables since transferring detaches the buffers
+        const workerConsumables = sliceEncodedDescriptions(consumables, 0, consumables.normalized.length);
+        const init: MatchWorkerRequest = {
+          type: 'init',
+          consumables: workerConsumables,
+          minThreshold,
+          candidateStrategy,
+          scorer,
+          attributeMode,
+        };
+        worker.postMessage(init, getTransferables(workerConsumables));
+        dispatchNext(worker);
+      }
+    } catch (error) {
+      fail(error instanceof Error ? error : new Error(String(error)));
+    }
+  });
+};
@@ -1,5 +1,39 @@
-import { compareTwoStrings } from 'string-similarity';
 import { ItemMasterRow, GenConsumableRow } from './fileParser';
+import { MatchRecord } from './columnMapping';
+import {
+  copyMatchPairs,
+  createMatchContext,
+  createMatchPairs,
+  extractTokens,
+  getBatchRange,
+  getEncodedPositions,
+  getPendingBatches,
+  getScorerText,
+  matchEncodedRange,
+  normalizeString,
+  prepareMatchData,
+  shouldExitEarly,
+  CandidateStrategy,
+  EncodedDescriptions,
+  MatchContext,
+  MatchPairs,
+  PreparedMatchData,
+  MATCH_BATCH_SIZE,
+} from './matchEngine';
+import { calculateSubScores, DEFAULT_SCORER, ScorerId, ScorerText, SCORERS, SubScores } from './scorers';
+import { compareAttributes, extractAttributes, AttributeConflict, AttributeMode } from './medicalAttributes';
+import {
+  applySynonyms,
+  compileSynonyms,
+  findSynonymMatches,
+  SynonymEntry,
+  SynonymMatch,
+  SynonymTable,
+  EMPTY_SYNONYM_TABLE,
+} from './synonyms';
+import { solveAssignment } from './assignment';
+import { compareUom, UomComparison } from './uom';
+import { alignDescriptions, DescriptionAlignment } from './descriptionDiff';
 
 export interface DescriptionDifference {
   commonWords: string[];
@@ -7,48 +41,53 @@ export interface DescriptionDifference {
   onlyInGenConsumable: string[];
   itemMasterWordCount: number;
   genConsumableWordCount: number;
+  alignment: DescriptionAlignment; // both descriptions in order, token by token
 }
 
 export interface MatchResult {
-  itemMasterRow: ItemMasterRow;
-  genConsumableRow: GenConsumableRow;
+  itemMasterRecord: MatchRecord<ItemMasterRow>;
+  genConsumableRecord: MatchRecord<GenConsumableRow>;
   matchPercentage: number;
+  scorer: ScorerId; // scorer that produced matchPercentage
+  subScores: SubScores;
+  attributeConflicts: AttributeConflict[]; // e.g. 5 ml vs 3 ml, regardless of attribute mode
+  synonymMatches: SynonymMatch[]; // e.g. cath <-> catheter
+  uomCompatibility: UomComparison; // e.g. tender BOX vs our EA with 48/CS in the description
   itemMasterDescription: string;
   genConsumableDescription: string;
   differences: DescriptionDifference;
 }
 
 /**
- * Clean and normalize string for better matching
+ * The part of a MatchResult the dashboard filters need, cheap to have for every candidate pair
  */
-const normalizeString = (str: string): string => {
-  if (!str) return '';
-  return str
-    .toLowerCase()
-    .trim()
-    .replace(/\s+/g, ' ')
-    .replace(/[^\w\s]/g, '');
-};
+export type MatchSummary = Pick<
+  MatchResult,
+  'itemMasterRecord' | 'genConsumableRecord' | 'matchPercentage' | 'itemMasterDescription' | 'genConsumableDescription'
+>;
 
 /**
  * Normalize string for difference display (preserves hyphens and numbers)
  */
-const normalizeForDisplay = (str: string): string => {
+const normalizeForDisplay = (str: string, synonyms: SynonymTable): string => {
   if (!str) return '';
-  return str
-    .toLowerCase()
+  return applySynonyms(str, synonyms)
     .trim()
     .replace(/\s+/g, ' ')
     .replace(/[^\w\s-]/g, ''); // Keep hyphens for display
 };
 
 /**
- * Calculate differences between two descriptions
+ * Calculate differences between two descriptions, treating synonyms as the same word
  */
-export const calculateDifferences = (desc1: string, desc2: string): DescriptionDifference => {
+export const calculateDifferences = (
+  desc1: string,
+  desc2: string,
+  synonyms: SynonymTable = EMPTY_SYNONYM_TABLE
+): DescriptionDifference => {
   // Use less aggressive normalization for display
-  const display1 = normalizeForDisplay(desc1);
-  const display2 = normalizeForDisplay(desc2);
+  const display1 = normalizeForDisplay(desc1, synonyms);
+  const display2 = normalizeForDisplay(desc2, synonyms);
   
   // Split into words and filter meaningful tokens (>= 2 chars)
   const words1 = display1.split(/\s+/).filter(w => w.length >= 2);
@@ -72,222 +111,557 @@ export const calculateDifferences = (desc1: string, desc2: string): DescriptionD
     onlyInGenConsumable: onlyInGenConsumable.sort(),
     itemMasterWordCount: words1.length,
     genConsumableWordCount: words2.length,
+    alignment: alignDescriptions(desc1, desc2, synonyms),
   };
 };
 
 /**
- * Calculate similarity between two descriptions
+ * Scorer input for a pair compared on its own, outside an encoded run
  */
-export const calculateSimilarity = (desc1: string, desc2: string): number => {
-  const normalized1 = normalizeString(desc1);
-  const normalized2 = normalizeString(desc2);
+const toStandaloneScorerTexts = (
+  desc1: string,
+  desc2: string,
+  synonyms: SynonymTable = EMPTY_SYNONYM_TABLE
+): [ScorerText, ScorerText] => {
+  const vocabulary = new Map<string, number>();
+  const toScorerText = (text: string): ScorerText => {
+    const tokenIds = Array.from(extractTokens(text, synonyms)).map(token => {
+      if (!vocabulary.has(token)) vocabulary.set(token, vocabulary.size);
+      return vocabulary.get(token) as number;
+    });
+    return { normalized: normalizeString(text, synonyms), tokenIds: tokenIds.sort((a, b) => a - b) };
+  };
+  return [toScorerText(desc1), toScorerText(desc2)];
+};
+
+/**
+ * Calculate similarity between two descriptions with the given scorer.
+ * Without a tender-wide IDF table, TF-IDF cosine weighs every word equally.
+ */
+export const calculateSimilarity = (desc1: string, desc2: string, scorer: ScorerId = DEFAULT_SCORER): number => {
+  const [text1, text2] = toStandaloneScorerTexts(desc1, desc2);
   
-  if (!normalized1 || !normalized2) return 0;
+  if (!text1.normalized || !text2.normalized) return 0;
   
-  const similarity = compareTwoStrings(normalized1, normalized2);
+  const similarity = SCORERS[scorer].score(text1, text2, new Float64Array(0));
   return Math.round(similarity * 10000) / 100; // Return percentage with 2 decimal places
 };
 
+/**
+ * MatchResult for a pair the matcher did not return, e.g. one linked by a reviewer
+ */
+export const buildManualMatchResult = (
+  itemRecord: MatchRecord<ItemMasterRow>,
+  genRecord: MatchRecord<GenConsumableRow>,
+  scorer: ScorerId = DEFAULT_SCORER,
+  synonymEntries: SynonymEntry[] = []
+): MatchResult => {
+  const synonyms = compileSynonyms(synonymEntries);
+  const [itemText, genText] = toStandaloneScorerTexts(itemRecord.description, genRecord.description, synonyms);
+  const idf = new Float64Array(0);
+  return {
+    itemMasterRecord: itemRecord,
+    genConsumableRecord: genRecord,
+    matchPercentage: Math.round(SCORERS[scorer].score(itemText, genText, idf) * 10000) / 100,
+    scorer,
+    subScores: calculateSubScores(itemText, genText, idf),
+    attributeConflicts: compareAttributes(
+      extractAttributes(itemRecord.description),
+      extractAttributes(genRecord.description)
+    ),
+    synonymMatches: findSynonymMatches(itemRecord.description, genRecord.description, synonyms),
+    uomCompatibility: compareUom(itemRecord.uom, itemRecord.description, genRecord.uom, genRecord.description),
+    itemMasterDescription: itemRecord.description,
+    genConsumableDescription: genRecord.description,
+    differences: calculateDifferences(itemRecord.description, genRecord.description, synonyms),
+  };
+};
+
 /**
  * Match items from both files based on description similarity
  * Optimized with early exit and result limiting
  */
 export const matchDescriptions = (
-  itemMasterData: ItemMasterRow[],
-  genConsumableData: GenConsumableRow[],
+  itemMasterData: MatchRecord<ItemMasterRow>[],
+  genConsumableData: MatchRecord<GenConsumableRow>[],
   minThreshold: number = 0,
-  maxResults: number = 1000
+  maxResults: number = 1000,
+  scorer: ScorerId = DEFAULT_SCORER
 ): MatchResult[] => {
-  const matches: MatchResult[] = [];
+  const prepared = prepareMatchData(itemMasterData, genConsumableData);
+  const context = createMatchContext(prepared.consumables, 'linearScan', scorer);
+  const pairs = createMatchPairs();
   
   // Only keep top matches above threshold
   for (let i = 0; i < itemMasterData.length; i++) {
-    const itemRow = itemMasterData[i];
-    const itemDesc = itemRow['Description'] || '';
+    const itemDesc = itemMasterData[i].description;
     if (!itemDesc) continue;
     
     for (let j = 0; j < genConsumableData.length; j++) {
-      const genRow = genConsumableData[j];
-      const genDesc = genRow['LONG DESCRIPTION'] || '';
+      const genDesc = genConsumableData[j].description;
       if (!genDesc) continue;
       
-      const matchPercentage = calculateSimilarity(itemDesc, genDesc);
+      const matchPercentage = calculateSimilarity(itemDesc, genDesc, scorer);
       
       if (matchPercentage >= minThreshold) {
-        const differences = calculateDifferences(itemDesc, genDesc);
-        matches.push({
-          itemMasterRow: itemRow,
-          genConsumableRow: genRow,
-          matchPercentage,
-          itemMasterDescription: itemDesc,
-          genConsumableDescription: genDesc,
-          differences,
-        });
+        pairs.itemIndices.push(i);
+        pairs.genIndices.push(j);
+        pairs.scores.push(matchPercentage);
       }
     }
   }
   
   // Sort by match percentage descending and limit results
-  return matches
-    .sort((a, b) => b.matchPercentage - a.matchPercentage)
-    .slice(0, maxResults);
+  return buildMatchResults(pairs, itemMasterData, genConsumableData, maxResults, prepared, context);
+};
+
+const toScorerText = (
+  encoded: EncodedDescriptions,
+  positions: Int32Array,
+  recordIndex: number,
+  description: string,
+  synonyms: SynonymTable
+): ScorerText => {
+  const position = positions[recordIndex];
+  if (position >= 0) return getScorerText(encoded, position);
+  return { normalized: normalizeString(description, synonyms), tokenIds: [] };
+};
+
+type MatchResultBuilder = (itemIndex: number, genIndex: number, score: number) => MatchResult;
+
+const createMatchResultBuilder = (
+  itemMasterData: MatchRecord<ItemMasterRow>[],
+  genConsumableData: MatchRecord<GenConsumableRow>[],
+  { items, consumables, synonyms }: PreparedMatchData,
+  { scorer, idf }: MatchContext
+): MatchResultBuilder => {
+  const itemPositions = getEncodedPositions(items, itemMasterData.length);
+  const genPositions = getEncodedPositions(consumables, genConsumableData.length);
+
+  return (itemIndex, genIndex, score) => {
+    const itemRecord = itemMasterData[itemIndex];
+    const genRecord = genConsumableData[genIndex];
+    return {
+      itemMasterRecord: itemRecord,
+      genConsumableRecord: genRecord,
+      matchPercentage: score,
+      scorer,
+      subScores: calculateSubScores(
+        toScorerText(items, itemPositions, itemIndex, itemRecord.description, synonyms),
+        toScorerText(consumables, genPositions, genIndex, genRecord.description, synonyms),
+        idf
+      ),
+      attributeConflicts: compareAttributes(
+        extractAttributes(itemRecord.description),
+        extractAttributes(genRecord.description)
+      ),
+      synonymMatches: findSynonymMatches(itemRecord.description, genRecord.description, synonyms),
+      uomCompatibility: compareUom(itemRecord.uom, itemRecord.description, genRecord.uom, genRecord.description),
+      itemMasterDescription: itemRecord.description,
+      genConsumableDescription: genRecord.description,
+      differences: calculateDifferences(itemRecord.description, genRecord.description, synonyms),
+    };
+  };
+};
+
+const sortPairIndicesByScore = (pairs: MatchPairs): number[] => {
+  const order = pairs.scores.map((_, idx) => idx);
+  return order.sort((a, b) => pairs.scores[b] - pairs.scores[a]);
 };
 
 /**
- * Extract meaningful tokens from description
+ * Sort candidate pairs, keep the top results and expand them into MatchResults
+ * with differences, per-scorer sub-scores, attribute conflicts and synonym matches.
+ * With an assignment capacity only the assigned pairs are kept, all of them.
  */
-const extractTokens = (text: string): Set<string> => {
-  const normalized = normalizeString(text);
-  const tokens = normalized.split(/\s+/).filter(token => token.length >= 3);
-  return new Set(tokens);
+export const buildMatchResults = (
+  candidatePairs: MatchPairs,
+  itemMasterData: MatchRecord<ItemMasterRow>[],
+  genConsumableData: MatchRecord<GenConsumableRow>[],
+  maxResults: number,
+  prepared: PreparedMatchData,
+  context: MatchContext,
+  assignmentCapacity: number = 0
+): MatchResult[] => {
+  const pairs = assignmentCapacity > 0 ? solveAssignment(candidatePairs, assignmentCapacity) : candidatePairs;
+  const limit = assignmentCapacity > 0 ? pairs.scores.length : maxResults;
+  const buildResult = createMatchResultBuilder(itemMasterData, genConsumableData, prepared, context);
+
+  return sortPairIndicesByScore(pairs)
+    .slice(0, limit)
+    .map(idx => buildResult(pairs.itemIndices[idx], pairs.genIndices[idx], pairs.scores[idx]));
 };
 
 /**
- * Calculate token overlap score (fast pre-filter)
+ * How many candidate pairs above threshold each record took part in, over all
+ * candidates found (not only the returned top results)
  */
-const calculateTokenOverlap = (tokens1: Set<string>, tokens2: Set<string>): number => {
-  if (tokens1.size === 0 || tokens2.size === 0) return 0;
-  
-  let overlap = 0;
-  tokens1.forEach(token => {
-    if (tokens2.has(token)) overlap++;
+export interface MatchCoverage {
+  genCandidateCounts: number[]; // indexed like genConsumableData
+  genBestScores: number[]; // 0 when the line has no candidate
+  itemCandidateCounts: number[]; // indexed like itemMasterData
+  partial: boolean; // the run exited early, so later items were never scored
+}
+
+export const calculateCoverage = (
+  pairs: MatchPairs,
+  itemCount: number,
+  genCount: number,
+  partial: boolean
+): MatchCoverage => {
+  const coverage: MatchCoverage = {
+    genCandidateCounts: new Array<number>(genCount).fill(0),
+    genBestScores: new Array<number>(genCount).fill(0),
+    itemCandidateCounts: new Array<number>(itemCount).fill(0),
+    partial,
+  };
+  pairs.scores.forEach((score, idx) => {
+    const genIndex = pairs.genIndices[idx];
+    coverage.genCandidateCounts[genIndex]++;
+    coverage.genBestScores[genIndex] = Math.max(coverage.genBestScores[genIndex], score);
+    coverage.itemCandidateCounts[pairs.itemIndices[idx]]++;
   });
-  
-  const union = tokens1.size + tokens2.size - overlap;
-  return union > 0 ? (overlap / union) : 0;
+  return coverage;
 };
 
 /**
- * ULTRA-OPTIMIZED async version with token-based pre-filtering
- * Reduces 14M+ comparisons to only relevant candidates
+ * Every candidate pair of a complete run. Results for any threshold at or above the
+ * run's and any maxResults are in-memory views over these, without re-matching.
  */
-export const matchDescriptionsAsync = async (
-  itemMasterData: ItemMasterRow[],
-  genConsumableData: GenConsumableRow[],
+export interface MatchCandidates {
+  pairs: MatchPairs;
+  minThreshold: number;
+  assignmentCapacity: number;
+  prepared: PreparedMatchData;
+  context: MatchContext;
+}
+
+const filterPairsByThreshold = (pairs: MatchPairs, threshold: number): MatchPairs => {
+  const filtered = createMatchPairs();
+  pairs.scores.forEach((score, idx) => {
+    if (score < threshold) return;
+    filtered.itemIndices.push(pairs.itemIndices[idx]);
+    filtered.genIndices.push(pairs.genIndices[idx]);
+    filtered.scores.push(score);
+  });
+  return filtered;
+};
+
+interface CandidateView {
+  order: number[]; // pair indices, best score first
+  results: (MatchResult | undefined)[]; // built on first view, by pair index
+  buildResult: MatchResultBuilder;
+}
+
+// Keyed by candidate set so results built for one threshold are reused by the next
+const candidateViews = new WeakMap<MatchCandidates, CandidateView>();
+
+const getCandidateView = (
+  candidates: MatchCandidates,
+  itemMasterData: MatchRecord<ItemMasterRow>[],
+  genConsumableData: MatchRecord<GenConsumableRow>[]
+): CandidateView => {
+  let view = candidateViews.get(candidates);
+  if (!view) {
+    view = {
+      order: sortPairIndicesByScore(candidates.pairs),
+      results: [],
+      buildResult: createMatchResultBuilder(itemMasterData, genConsumableData, candidates.prepared, candidates.context),
+    };
+    candidateViews.set(candidates, view);
+  }
+  return view;
+};
+
+/**
+ * Results of a candidate set at the given threshold, as the run itself would have
+ * returned them. Only the assignment is re-solved; everything else comes from the
+ * sorted candidates and the results already built for them.
+ */
+export const selectMatchResults = (
+  candidates: MatchCandidates,
+  itemMasterData: MatchRecord<ItemMasterRow>[],
+  genConsumableData: MatchRecord<GenConsumableRow>[],
+  threshold: number,
+  maxResults: number
+): MatchResult[] => {
+  const { pairs, assignmentCapacity } = candidates;
+  if (assignmentCapacity > 0) {
+    return buildMatchResults(
+      filterPairsByThreshold(pairs, threshold),
+      itemMasterData,
+      genConsumableData,
+      maxResults,
+      candidates.prepared,
+      candidates.context,
+      assignmentCapacity
+    );
+  }
+
+  const view = getCandidateView(candidates, itemMasterData, genConsumableData);
+  const selected: MatchResult[] = [];
+  for (const idx of view.order) {
+    if (selected.length >= maxResults || pairs.scores[idx] < threshold) break;
+    let result = view.results[idx];
+    if (!result) {
+      result = view.buildResult(pairs.itemIndices[idx], pairs.genIndices[idx], pairs.scores[idx]);
+      view.results[idx] = result;
+    }
+    selected.push(result);
+  }
+  return selected;
+};
+
+/**
+ * The pairs selectMatchResults would return at the threshold, in no particular order and
+ * without building their results
+ */
+export const selectMatchSummaries = (
+  candidates: MatchCandidates,
+  itemMasterData: MatchRecord<ItemMasterRow>[],
+  genConsumableData: MatchRecord<GenConsumableRow>[],
+  threshold: number
+): MatchSummary[] => {
+  const filtered = filterPairsByThreshold(candidates.pairs, threshold);
+  const pairs = candidates.assignmentCapacity > 0 ? solveAssignment(filtered, candidates.assignmentCapacity) : filtered;
+  return pairs.scores.map((score, idx) => {
+    const itemRecord = itemMasterData[pairs.itemIndices[idx]];
+    const genRecord = genConsumableData[pairs.genIndices[idx]];
+    return {
+      itemMasterRecord: itemRecord,
+      genConsumableRecord: genRecord,
+      matchPercentage: score,
+      itemMasterDescription: itemRecord.description,
+      genConsumableDescription: genRecord.description,
+    };
+  });
+};
+
+export const selectMatchCoverage = (
+  candidates: MatchCandidates,
+  itemCount: number,
+  genCount: number,
+  threshold: number
+): MatchCoverage => {
+  return calculateCoverage(filterPairsByThreshold(candidates.pairs, threshold), itemCount, genCount, false);
+};
+
+/**
+ * Candidates of a saved run, re-attached to its records so results can be built again
+ */
+export const restoreMatchCandidates = (
+  pairs: MatchPairs,
+  minThreshold: number,
+  itemMasterData: MatchRecord<ItemMasterRow>[],
+  genConsumableData: MatchRecord<GenConsumableRow>[],
+  { scorer, attributeMode, synonyms, assignmentCapacity }: MatchSettings
+): MatchCandidates => {
+  const prepared = prepareMatchData(itemMasterData, genConsumableData, compileSynonyms(synonyms));
+  // Building results only needs the IDF weights, not the candidate index
+  const context = createMatchContext(prepared.consumables, 'linearScan', scorer, attributeMode);
+  return { pairs, minThreshold, assignmentCapacity, prepared, context };
+};
+
+/**
+ * Progress of an interrupted run, enough to resume it on the same inputs
+ */
+export interface MatchCheckpoint {
+  minThreshold: number;
+  scorer: ScorerId;
+  attributeMode: AttributeMode;
+  synonyms: SynonymEntry[];
+  assignmentCapacity: number;
+  completedBatches: number[];
+  itemCount: number;
+  pairs: MatchPairs;
+}
+
+export interface MatchRunOptions {
+  candidateStrategy?: CandidateStrategy; // defaults to 'invertedIndex'
+  scorer?: ScorerId; // defaults to 'dice'
+  attributeMode?: AttributeMode; // defaults to 'off'
+  synonyms?: SynonymEntry[]; // abbreviation dictionary applied during normalization; none by default
+  assignmentCapacity?: number; // items per tender line in one-to-one assignment mode; 0 (off) by default
+  onMatchesFound?: (matchCount: number) => void;
+  onCoverage?: (coverage: MatchCoverage) => void; // called once, just before the results resolve
+  onCandidates?: (candidates: MatchCandidates) => void; // called once with every candidate pair; disables early exit
+  signal?: AbortSignal;
+  resumeFrom?: MatchCheckpoint;
+}
+
+// The settings that decide which candidate pairs a run finds and how they score
+export type MatchSettings = Required<Pick<MatchRunOptions, 'scorer' | 'attributeMode' | 'synonyms' | 'assignmentCapacity'>>;
+
+/**
+ * Rejection value of a cancelled run; carries the checkpoint to resume from
+ */
+export class MatchAbortedError extends Error {
+  checkpoint: MatchCheckpoint;
+
+  constructor(checkpoint: MatchCheckpoint) {
+    super('Matching was cancelled');
+    this.name = 'AbortError';
+    this.checkpoint = checkpoint;
+    Object.setPrototypeOf(this, MatchAbortedError.prototype);
+  }
+}
+
+export const isMatchAborted = (error: unknown): error is MatchAbortedError => {
+  return error instanceof MatchAbortedError;
+};
+
+export const getCheckpointProgress = (checkpoint: MatchCheckpoint): number => {
+  if (checkpoint.itemCount === 0) return 100;
+  const completedItems = checkpoint.completedBatches.reduce((sum, batch) => {
+    const [start, end] = getBatchRange(batch, checkpoint.itemCount);
+    return sum + (end - start);
+  }, 0);
+  return Math.round((completedItems / checkpoint.itemCount) * 100);
+};
+
+/**
+ * Main-thread version of the matcher, processed in setTimeout chunks.
+ * Used where Web Workers are unavailable (server, older browsers).
+ */
+export const matchDescriptionsInline = async (
+  itemMasterData: MatchRecord<ItemMasterRow>[],
+  genConsumableData: MatchRecord<GenConsumableRow>[],
   minThreshold: number = 0,
   maxResults: number = 1000,
-  onProgress?: (progress: number) => void
+  onProgress?: (progress: number) => void,
+  {
+    candidateStrategy = 'invertedIndex',
+    scorer = DEFAULT_SCORER,
+    attributeMode = 'off',
+    synonyms = [],
+    assignmentCapacity = 0,
+    onMatchesFound,
+    onCoverage,
+    onCandidates,
+    signal,
+    resumeFrom,
+  }: MatchRunOptions = {}
 ): Promise<MatchResult[]> => {
-  return new Promise((resolve) => {
+  return new Promise((resolve, reject) => {
     console.time('Total Matching Time');
-    const matches: MatchResult[] = [];
-    const chunkSize = 200; // Larger chunks for faster processing
-    let currentIndex = 0;
     
     console.log(`Starting match with ${itemMasterData.length} items vs ${genConsumableData.length} consumables`);
     
     // Pre-process and tokenize all data once
     console.time('Pre-processing');
-    const normalizedItemData = itemMasterData
-      .map((row, idx) => {
-        const desc = row['Description'] || '';
-        const normalized = normalizeString(desc);
-        return {
-          row,
-          desc,
-          normalizedDesc: normalized,
-          tokens: extractTokens(desc),
-          index: idx
-        };
-      })
-      .filter(item => item.normalizedDesc.length > 0 && item.tokens.size > 0);
-    
-    const normalizedGenData = genConsumableData
-      .map((row, idx) => {
-        const desc = row['LONG DESCRIPTION'] || '';
-        const normalized = normalizeString(desc);
-        return {
-          row,
-          desc,
-          normalizedDesc: normalized,
-          tokens: extractTokens(desc),
-          index: idx
-        };
-      })
-      .filter(item => item.normalizedDesc.length > 0 && item.tokens.size > 0);
-    
+    const prepared = prepareMatchData(itemMasterData, genConsumableData, compileSynonyms(synonyms));
+    const { items, consumables } = prepared;
+    const context = createMatchContext(consumables, candidateStrategy, scorer, attributeMode);
+    const itemCount = items.normalized.length;
+    const pairs = resumeFrom ? copyMatchPairs(resumeFrom.pairs) : createMatchPairs();
+    const completedBatches = resumeFrom ? [...resumeFrom.completedBatches] : [];
+    const pendingBatches = getPendingBatches(itemCount, completedBatches);
+    let processed = itemCount - pendingBatches.reduce((sum, batch) => {
+      const [start, end] = getBatchRange(batch, itemCount);
+      return sum + (end - start);
+    }, 0);
     console.timeEnd('Pre-processing');
-    console.log(`Pre-processed: ${normalizedItemData.length} items, ${normalizedGenData.length} consumables`);
+    console.log(`Pre-processed: ${itemCount} items, ${consumables.normalized.length} consumables`);
+    
+    const finish = (partial: boolean) => {
+      if (onCoverage) {
+        onCoverage(calculateCoverage(pairs, itemMasterData.length, genConsumableData.length, partial));
+      }
+      if (onCandidates) onCandidates({ pairs, minThreshold, assignmentCapacity, prepared, context });
+      const results = buildMatchResults(
+        pairs,
+        itemMasterData,
+        genConsumableData,
+        maxResults,
+        prepared,
+        context,
+        assignmentCapacity
+      );
+      console.timeEnd('Total Matching Time');
+      console.log(`Returning top ${results.length} matches`);
+      resolve(results);
+    };
     
     const processChunk = () => {
-      const startTime = Date.now();
-      const endIndex = Math.min(currentIndex + chunkSize, normalizedItemData.length);
+      if (signal?.aborted) {
+        console.timeEnd('Total Matching Time');
+        console.log(`Matching cancelled after ${completedBatches.length} of ${Math.ceil(itemCount / MATCH_BATCH_SIZE)} batches`);
+        reject(new MatchAbortedError({
+          minThreshold,
+          scorer,
+          attributeMode,
+          synonyms,
+          assignmentCapacity,
+          completedBatches,
+          itemCount,
+          pairs,
+        }));
+        return;
+      }
       
-      for (let i = currentIndex; i < endIndex; i++) {
-        const itemData = normalizedItemData[i];
-        
-        // OPTIMIZATION 1: Token-based pre-filtering - only compare if significant token overlap
-        const candidates = normalizedGenData.filter(genData => {
-          // Quick length check first (fastest filter)
-          const lengthRatio = Math.min(itemData.normalizedDesc.length, genData.normalizedDesc.length) /
-                            Math.max(itemData.normalizedDesc.length, genData.normalizedDesc.length);
-          if (lengthRatio < 0.3) return false; // Skip if length difference is too large
-          
-          // Token overlap check (still fast, much faster than full string comparison)
-          const tokenOverlap = calculateTokenOverlap(itemData.tokens, genData.tokens);
-          return tokenOverlap > 0.15; // Only compare if at least 15% token overlap
-        });
-        
-        // OPTIMIZATION 2: Only do expensive string comparison on filtered candidates
-        for (const genData of candidates) {
-          const matchPercentage = compareTwoStrings(itemData.normalizedDesc, genData.normalizedDesc) * 100;
-          
-          if (matchPercentage >= minThreshold) {
-            const differences = calculateDifferences(itemData.desc, genData.desc);
-            matches.push({
-              itemMasterRow: itemData.row,
-              genConsumableRow: genData.row,
-              matchPercentage: Math.round(matchPercentage * 100) / 100,
-              itemMasterDescription: itemData.desc,
-              genConsumableDescription: genData.desc,
-              differences,
-            });
-            
-            // OPTIMIZATION 3: Early exit on perfect match
-            if (matchPercentage >= 98) break;
-          }
-        }
+      const batch = pendingBatches.shift();
+      if (batch === undefined) {
+        // Done processing, sort and return top results
+        console.log(`Processing complete: ${pairs.scores.length} total matches found`);
+        finish(false);
+        return;
       }
       
-      currentIndex = endIndex;
-      const progress = Math.round((currentIndex / normalizedItemData.length) * 100);
+      const startTime = Date.now();
+      const [startIndex, endIndex] = getBatchRange(batch, itemCount);
+      
+      matchEncodedRange(items, consumables, startIndex, endIndex, minThreshold, pairs, context);
+      
+      completedBatches.push(batch);
+      processed += endIndex - startIndex;
+      const progress = itemCount > 0 ? Math.round((processed / itemCount) * 100) : 100;
       const elapsed = Date.now() - startTime;
       
       if (onProgress) {
         onProgress(progress);
       }
+      if (onMatchesFound) {
+        onMatchesFound(pairs.scores.length);
+      }
       
       // Log progress every 20%
       if (progress % 20 === 0 || progress === 100) {
-        console.log(`Progress: ${progress}%, Matches found: ${matches.length}, Chunk time: ${elapsed}ms`);
+        console.log(`Progress: ${progress}%, Matches found: ${pairs.scores.length}, Chunk time: ${elapsed}ms`);
       }
       
-      // OPTIMIZATION 4: Early exit if we have enough excellent matches
-      if (matches.length >= maxResults * 3 && minThreshold >= 70) {
-        console.log(`Early exit: Found ${matches.length} matches (target: ${maxResults})`);
-        const sorted = matches
-          .sort((a, b) => b.matchPercentage - a.matchPercentage)
-          .slice(0, maxResults);
-        console.timeEnd('Total Matching Time');
-        resolve(sorted);
+      // The assignment and candidate views need every candidate pair, so they never exit early
+      if (!assignmentCapacity && !onCandidates && shouldExitEarly(pairs.scores.length, maxResults, minThreshold)) {
+        console.log(`Early exit: Found ${pairs.scores.length} matches (target: ${maxResults})`);
+        finish(true);
         return;
       }
       
-      if (currentIndex < normalizedItemData.length) {
-        // Continue processing in next tick
-        setTimeout(processChunk, 0);
-      } else {
-        // Done processing, sort and return top results
-        console.log(`Processing complete: ${matches.length} total matches found`);
-        const sorted = matches
-          .sort((a, b) => b.matchPercentage - a.matchPercentage)
-          .slice(0, maxResults);
-        console.timeEnd('Total Matching Time');
-        console.log(`Returning top ${sorted.length} matches`);
-        resolve(sorted);
-      }
+      // Continue processing in next tick
+      setTimeout(processChunk, 0);
     };
     
     processChunk();
   });
 };
+
+/**
+ * ULTRA-OPTIMIZED async version with token-based pre-filtering
+ * Reduces 14M+ comparisons to only relevant candidates, spread across a Web Worker pool.
+ * Pass options.signal to cancel; the rejection's checkpoint can be fed back as options.resumeFrom.
+ */
+export const matchDescriptionsAsync = async (
+  itemMasterData: MatchRecord<ItemMasterRow>[],
+  genConsumableData: MatchRecord<GenConsumableRow>[],
+  minThreshold: number = 0,
+  maxResults: number = 1000,
+  onProgress?: (progress: number) => void,
+  options: MatchRunOptions = {}
+): Promise<MatchResult[]> => {
+  if (typeof window === 'undefined' || typeof Worker === 'undefined') {
+    return matchDescriptionsInline(itemMasterData, genConsumableData, minThreshold, maxResults, onProgress, options);
+  }
+
+  // Loaded lazily so server-side imports of this module never touch the worker URL
+  const { runMatchWorkerPool } = await import('./matchWorkerPool');
+  return runMatchWorkerPool(itemMasterData, genConsumableData, minThreshold, maxResults, onProgress, options);
+};
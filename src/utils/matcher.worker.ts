@@ -0,0 +1,51 @@
+import {
+  createMatchContext,
+  createMatchPairs,
+  matchEncodedRange,
+  EncodedDescriptions,
+  MatchContext,
+} from './matchEngine';
+import type { MatchWorkerRequest, MatchWorkerResponse } from './matchWorkerPool';
+
+let consumables: EncodedDescriptions | null = null;
+let context: MatchContext | null = null;
+let minThreshold = 0;
+
+const respond = (message: MatchWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+self.onmessage = (event: MessageEvent<MatchWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'init') {
+      consumables = request.consumables;
+      minThreshold = request.minThreshold;
+      // Cheap to rebuild per worker, so the index is never sent over postMessage
+      context = createMatchContext(
+        consumables,
+        request.candidateStrategy,
+        request.scorer,
+        request.attributeMode
+      );
+      return;
+    }
+
+    if (!consumables || !context) throw new Error('Matcher worker received a batch before init');
+
+    const { items, batchId } = request;
+    const pairs = createMatchPairs();
+    matchEncodedRange(items, consumables, 0, items.normalized.length, minThreshold, pairs, context);
+
+    const itemIndices = Int32Array.from(pairs.itemIndices);
+    const genIndices = Int32Array.from(pairs.genIndices);
+    const scores = Float64Array.from(pairs.scores);
+    respond(
+      { type: 'result', batchId, processed: items.normalized.length, itemIndices, genIndices, scores },
+      [itemIndices.buffer, genIndices.buffer, scores.buffer]
+    );
+  } catch (error) {
+    respond({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
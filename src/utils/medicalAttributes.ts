@@ -0,0 +1,176 @@
+/**
+ * Structured attributes parsed from medical-supply descriptions, e.g.
+ * "SYRINGE, 5 ML, LUER LOCK TIP, ... STERILE" or "CATHETER NELATON 14FR 48/CS"
+ */
+export interface MedicalAttributes {
+  volumesMl: number[];
+  gauges: number[];
+  frenchSizes: number[];
+  dimensionsMm: number[][]; // each sorted largest first
+  lengthsMm: number[];
+  packCounts: number[];
+  sterile: boolean | null;
+}
+
+export type AttributeKey = keyof MedicalAttributes;
+
+export interface AttributeConflict {
+  attribute: AttributeKey;
+  label: string;
+  itemMasterValue: string;
+  genConsumableValue: string;
+}
+
+/**
+ * How the matcher treats pairs whose extracted attributes conflict
+ */
+export type AttributeMode = 'off' | 'penalize' | 'reject';
+
+export const ATTRIBUTE_MODES: { id: AttributeMode; label: string }[] = [
+  { id: 'off', label: 'Off (text similarity only)' },
+  { id: 'penalize', label: 'Penalize conflicts' },
+  { id: 'reject', label: 'Reject conflicts' },
+];
+
+// Percentage points taken off a match for each conflicting attribute
+export const ATTRIBUTE_CONFLICT_PENALTY = 15;
+
+// Relative difference still treated as the same size (inch/cm rounding, 4" vs 10 cm)
+const SIZE_TOLERANCE = 0.03;
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`;
+const VOLUME_PATTERN = new RegExp(String.raw`\b${NUMBER}\s*(ML|CC|LTR|LITRES?|LITERS?|L)\b`, 'g');
+const GAUGE_PATTERN = new RegExp(String.raw`\b(\d{1,2})\s*(?:G|GA|GAUGE)\b`, 'g');
+const FRENCH_PATTERN = new RegExp(String.raw`\b${NUMBER}\s*(?:FR|CH)\b|\b(?:FR|CH)\.?\s*${NUMBER}\b`, 'g');
+const DIMENSION_PATTERN = new RegExp(
+  String.raw`\b${NUMBER}\s*X\s*${NUMBER}(?:\s*X\s*${NUMBER})?\s*(MM|CM|M|INCH(?:ES)?|IN|")(?=\W|$)`,
+  'g'
+);
+const LENGTH_PATTERN = new RegExp(
+  String.raw`\b(\d+(?:\.\d+)?(?:\s*\/\s*\d+)?)\s*(MM|CM|M|INCH(?:ES)?|IN|")(?=\W|$)`,
+  'g'
+);
+const PACK_PATTERN = /\b(\d+)\s*\/\s*(?:CS|CASE|BX|BOX|PK|PKT|PACK|PACKET|BAG|CTN)\b/g;
+const NON_STERILE_PATTERN = /\b(?:NON|UN)[\s-]?STE?RILE\b/;
+const STERILE_PATTERN = /\bSTERILE\b/;
+
+const UNIT_TO_MM: Record<string, number> = { MM: 1, CM: 10, M: 1000, IN: 25.4, INCH: 25.4, INCHES: 25.4, '"': 25.4 };
+
+const toMm = (value: number, unit: string): number => value * UNIT_TO_MM[unit];
+
+const parseFraction = (text: string): number => {
+  const [numerator, denominator] = text.split('/').map(part => parseFloat(part));
+  return denominator ? numerator / denominator : numerator;
+};
+
+const unique = (values: number[]): number[] => Array.from(new Set(values.map(v => Math.round(v * 100) / 100)));
+
+/**
+ * Parse sizes, volumes, gauges, French sizes, pack counts and sterility from a raw description.
+ * Runs on the original text because normalizeString drops the "." and "/" these rely on.
+ */
+export const extractAttributes = (description: string): MedicalAttributes => {
+  let text = (description || '').toUpperCase();
+
+  const volumesMl = Array.from(text.matchAll(VOLUME_PATTERN), ([, value, unit]) =>
+    parseFloat(value) * (unit === 'ML' || unit === 'CC' ? 1 : 1000)
+  );
+  // "G" doubles as grams; only plausible needle/cannula gauges count
+  const gauges = Array.from(text.matchAll(GAUGE_PATTERN), ([, value]) => parseInt(value, 10))
+    .filter(gauge => gauge >= 10 && gauge <= 34);
+  // Charrière (CH) and French (FR) are the same scale
+  const frenchSizes = Array.from(text.matchAll(FRENCH_PATTERN), ([, suffixed, prefixed]) =>
+    parseFloat(suffixed ?? prefixed)
+  );
+  const packCounts = Array.from(text.matchAll(PACK_PATTERN), ([, value]) => parseInt(value, 10));
+
+  const dimensionsMm = Array.from(text.matchAll(DIMENSION_PATTERN), ([, a, b, c, unit]) =>
+    [a, b, c].filter(Boolean).map(v => toMm(parseFloat(v), unit)).sort((x, y) => y - x)
+  );
+  // Sizes already read as dimensions must not be counted again as single lengths
+  text = text.replace(DIMENSION_PATTERN, ' ');
+  const lengthsMm = Array.from(text.matchAll(LENGTH_PATTERN), ([, value, unit]) => toMm(parseFraction(value), unit));
+
+  let sterile: boolean | null = null;
+  if (NON_STERILE_PATTERN.test(text)) sterile = false;
+  else if (STERILE_PATTERN.test(text)) sterile = true;
+
+  return {
+    volumesMl: unique(volumesMl),
+    gauges: unique(gauges),
+    frenchSizes: unique(frenchSizes),
+    dimensionsMm,
+    lengthsMm: unique(lengthsMm),
+    packCounts: unique(packCounts),
+    sterile,
+  };
+};
+
+const sameSize = (a: number, b: number): boolean => Math.abs(a - b) <= SIZE_TOLERANCE * Math.max(a, b);
+
+const sameDimensions = (a: number[], b: number[]): boolean =>
+  a.length === b.length && a.every((value, idx) => sameSize(value, b[idx]));
+
+/**
+ * Both sides state the attribute but share no value
+ */
+const listsConflict = <T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): boolean =>
+  a.length > 0 && b.length > 0 && !a.some(x => b.some(y => equals(x, y)));
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+const formatMm = (value: number): string =>
+  value >= 10 && value % 10 === 0 ? `${formatNumber(value / 10)} cm` : `${formatNumber(value)} mm`;
+
+const NUMERIC_ATTRIBUTES: {
+  key: 'volumesMl' | 'gauges' | 'frenchSizes' | 'lengthsMm' | 'packCounts';
+  label: string;
+  format: (value: number) => string;
+}[] = [
+  { key: 'volumesMl', label: 'Volume', format: v => `${formatNumber(v)} ml` },
+  { key: 'gauges', label: 'Gauge', format: v => `${v}G` },
+  { key: 'frenchSizes', label: 'French size', format: v => `${formatNumber(v)} Fr` },
+  { key: 'lengthsMm', label: 'Length', format: formatMm },
+  { key: 'packCounts', label: 'Pack count', format: v => `${v}/pack` },
+];
+
+/**
+ * Attributes stated on both sides with different values
+ */
+export const compareAttributes = (itemMaster: MedicalAttributes, genConsumable: MedicalAttributes): AttributeConflict[] => {
+  const conflicts: AttributeConflict[] = [];
+
+  NUMERIC_ATTRIBUTES.forEach(({ key, label, format }) => {
+    const equals = key === 'lengthsMm' ? sameSize : (x: number, y: number) => x === y;
+    if (listsConflict(itemMaster[key], genConsumable[key], equals)) {
+      conflicts.push({
+        attribute: key,
+        label,
+        itemMasterValue: itemMaster[key].map(format).join(', '),
+        genConsumableValue: genConsumable[key].map(format).join(', '),
+      });
+    }
+  });
+
+  if (listsConflict(itemMaster.dimensionsMm, genConsumable.dimensionsMm, sameDimensions)) {
+    const format = (dimensions: number[][]) => dimensions.map(d => d.map(formatMm).join(' x ')).join(', ');
+    conflicts.push({
+      attribute: 'dimensionsMm',
+      label: 'Dimensions',
+      itemMasterValue: format(itemMaster.dimensionsMm),
+      genConsumableValue: format(genConsumable.dimensionsMm),
+    });
+  }
+
+  if (itemMaster.sterile !== null && genConsumable.sterile !== null && itemMaster.sterile !== genConsumable.sterile) {
+    const format = (sterile: boolean) => (sterile ? 'sterile' : 'non-sterile');
+    conflicts.push({
+      attribute: 'sterile',
+      label: 'Sterility',
+      itemMasterValue: format(itemMaster.sterile),
+      genConsumableValue: format(genConsumable.sterile),
+    });
+  }
+
+  return conflicts;
+};
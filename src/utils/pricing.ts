@@ -0,0 +1,135 @@
+import { ItemMasterRow, parseCSVText, parseLocaleNumber } from './fileParser';
+import { MatchResult } from './matcher';
+import { getTenderLineKey } from './reviewStore';
+import { convertQuantity } from './uom';
+
+// Unit price per Item Code, in our selling unit
+export type PriceList = Record<string, number>;
+
+export type MatchQuality = 'excellent' | 'good' | 'fair' | 'poor';
+
+export const MATCH_QUALITY_LABELS: Record<MatchQuality, string> = {
+  excellent: 'Excellent (≥90%)',
+  good: 'Good (70-89%)',
+  fair: 'Fair (50-69%)',
+  poor: 'Poor (<50%)',
+};
+
+/**
+ * Estimated value of bidding one tender line with its best remaining match
+ */
+export interface BidLineEstimate {
+  match: MatchResult;
+  tenderQuantity: number | null;
+  bidQuantity: number | null; // tender quantity converted into our selling unit
+  unitPrice: number | null;
+  value: number | null;
+}
+
+export interface BidValueRollup {
+  key: string;
+  lineCount: number;
+  pricedLineCount: number;
+  value: number;
+}
+
+const STORAGE_KEY = 'priceList';
+
+const CODE_HEADER_PATTERN = /item\s*code|^code$|\bsku\b/i;
+const PRICE_HEADER_PATTERN = /price|rate|cost/i;
+
+export const getMatchQuality = (percentage: number): MatchQuality => {
+  if (percentage >= 90) return 'excellent';
+  if (percentage >= 70) return 'good';
+  if (percentage >= 50) return 'fair';
+  return 'poor';
+};
+
+/**
+ * Read a price list CSV with an Item Code column and a price column
+ */
+export const parsePriceListCsv = async (text: string, sourceName: string): Promise<PriceList> => {
+  const { rows } = await parseCSVText<ItemMasterRow>(text, sourceName);
+  const records = rows as unknown as Record<string, unknown>[];
+  const headers = records.length > 0 ? Object.keys(records[0]) : [];
+  const codeHeader = headers.find(header => CODE_HEADER_PATTERN.test(header));
+  const priceHeader = headers.find(header => PRICE_HEADER_PATTERN.test(header));
+  if (!codeHeader || !priceHeader) {
+    throw new Error('The price list needs an "Item Code" column and a "Price" column.');
+  }
+
+  const prices: PriceList = {};
+  records.forEach(record => {
+    const code = String(record[codeHeader] ?? '').trim();
+    const price = parseLocaleNumber(record[priceHeader] as string | number);
+    if (code && price !== null && price >= 0) prices[code] = price;
+  });
+  return prices;
+};
+
+/**
+ * One estimate per tender line, taking the first match of each line; pass matches
+ * in ranking order (confirmed first) and without rejected pairs
+ */
+export const estimateBidLines = (matches: MatchResult[], prices: PriceList): BidLineEstimate[] => {
+  const seenLines = new Set<string>();
+  const estimates: BidLineEstimate[] = [];
+  matches.forEach(match => {
+    // Lines sharing a code (e.g. the same product in two tender groups) are bid separately
+    const lineKey = getTenderLineKey(match.genConsumableRecord.code, match.genConsumableRecord.lineNumber);
+    if (seenLines.has(lineKey)) return;
+    seenLines.add(lineKey);
+
+    const bidQuantity = convertQuantity(match.genConsumableRecord.quantity, match.uomCompatibility);
+    const unitPrice = prices[match.itemMasterRecord.code] ?? null;
+    estimates.push({
+      match,
+      tenderQuantity: parseLocaleNumber(match.genConsumableRecord.quantity),
+      bidQuantity,
+      unitPrice,
+      value: bidQuantity !== null && unitPrice !== null ? bidQuantity * unitPrice : null,
+    });
+  });
+  return estimates;
+};
+
+/**
+ * Sum estimated bid value per group, largest first
+ */
+export const rollUpBidValue = (
+  estimates: BidLineEstimate[],
+  keyOf: (estimate: BidLineEstimate) => string
+): BidValueRollup[] => {
+  const groups = new Map<string, BidValueRollup>();
+  estimates.forEach(estimate => {
+    const key = keyOf(estimate) || 'Unspecified';
+    const group = groups.get(key) ?? { key, lineCount: 0, pricedLineCount: 0, value: 0 };
+    group.lineCount++;
+    if (estimate.value !== null) {
+      group.pricedLineCount++;
+      group.value += estimate.value;
+    }
+    groups.set(key, group);
+  });
+  return Array.from(groups.values()).sort((a, b) => b.value - a.value);
+};
+
+export const loadPriceList = (): PriceList => {
+  if (typeof window === 'undefined') return {};
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as PriceList) : {};
+  } catch (error) {
+    console.error('Error reading saved price list:', error);
+    return {};
+  }
+};
+
+export const savePriceList = (prices: PriceList): void => {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(prices));
+  } catch (error) {
+    console.error('Error saving price list:', error);
+  }
+};
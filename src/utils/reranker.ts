@@ -0,0 +1,153 @@
+import { MatchResult } from './matcher';
+import { BASE_SCORER_IDS } from './scorers';
+
+/**
+ * Logistic regression over match features, trained in the browser from reviewer decisions
+ */
+export interface RerankerModel {
+  featureNames: string[];
+  weights: number[]; // weights[0] is the bias
+  businessUnitRates: Record<string, number>; // smoothed share of confirmed pairs per business unit
+  trainedAt: number;
+  sampleCount: number;
+  positiveCount: number;
+  accuracy: number; // on the training samples
+}
+
+export interface LabeledMatch {
+  match: MatchResult;
+  correct: boolean;
+}
+
+// Both classes need examples before a model is worth fitting
+export const MIN_SAMPLES_PER_CLASS = 3;
+
+const LEARNING_RATE = 0.5;
+const EPOCHS = 500;
+const L2_PENALTY = 0.01;
+const MAX_CONFLICTS_FEATURE = 3;
+const STORAGE_KEY = 'matchReranker';
+
+const FEATURE_NAMES = [
+  'matchPercentage',
+  ...BASE_SCORER_IDS,
+  'attributeConflicts',
+  'synonymMatches',
+  'uomAgreement',
+  'businessUnitRate',
+];
+
+const sigmoid = (z: number): number => 1 / (1 + Math.exp(-z));
+
+const getBusinessUnit = (match: MatchResult): string => match.itemMasterRecord.category.trim().toLowerCase();
+
+const extractFeatures = (match: MatchResult, businessUnitRates: Record<string, number>): number[] => {
+  const { status } = match.uomCompatibility;
+  // Units that cannot be checked neither help nor hurt
+  const uomAgreement = status === 'incompatible' ? 0 : status === 'unknown' ? 0.5 : 1;
+
+  return [
+    match.matchPercentage / 100,
+    ...BASE_SCORER_IDS.map(id => match.subScores[id] / 100),
+    Math.min(match.attributeConflicts.length, MAX_CONFLICTS_FEATURE) / MAX_CONFLICTS_FEATURE,
+    match.synonymMatches.length > 0 ? 1 : 0,
+    uomAgreement,
+    businessUnitRates[getBusinessUnit(match)] ?? 0.5,
+  ];
+};
+
+/**
+ * Share of confirmed pairs per business unit, smoothed towards 0.5 (Laplace)
+ */
+const calculateBusinessUnitRates = (samples: LabeledMatch[]): Record<string, number> => {
+  const counts: Record<string, { correct: number; total: number }> = {};
+  samples.forEach(({ match, correct }) => {
+    const unit = getBusinessUnit(match);
+    counts[unit] = counts[unit] ?? { correct: 0, total: 0 };
+    counts[unit].total++;
+    if (correct) counts[unit].correct++;
+  });
+  const rates: Record<string, number> = {};
+  Object.entries(counts).forEach(([unit, { correct, total }]) => {
+    rates[unit] = (correct + 1) / (total + 2);
+  });
+  return rates;
+};
+
+export const canTrainReranker = (samples: LabeledMatch[]): boolean => {
+  const positives = samples.filter(s => s.correct).length;
+  return positives >= MIN_SAMPLES_PER_CLASS && samples.length - positives >= MIN_SAMPLES_PER_CLASS;
+};
+
+/**
+ * Fit the model with batch gradient descent; small enough to run on the main thread
+ */
+export const trainReranker = (samples: LabeledMatch[]): RerankerModel => {
+  if (!canTrainReranker(samples)) {
+    throw new Error(`Need at least ${MIN_SAMPLES_PER_CLASS} confirmed and ${MIN_SAMPLES_PER_CLASS} rejected pairs`);
+  }
+
+  const businessUnitRates = calculateBusinessUnitRates(samples);
+  const rows = samples.map(({ match }) => [1, ...extractFeatures(match, businessUnitRates)]);
+  const labels = samples.map(({ correct }) => (correct ? 1 : 0));
+  const weights = new Array<number>(rows[0].length).fill(0);
+
+  for (let epoch = 0; epoch < EPOCHS; epoch++) {
+    const gradient = new Array<number>(weights.length).fill(0);
+    rows.forEach((row, i) => {
+      const error = sigmoid(row.reduce((sum, x, k) => sum + x * weights[k], 0)) - labels[i];
+      row.forEach((x, k) => { gradient[k] += error * x; });
+    });
+    weights.forEach((w, k) => {
+      const penalty = k === 0 ? 0 : L2_PENALTY * w;
+      weights[k] = w - LEARNING_RATE * (gradient[k] / rows.length + penalty);
+    });
+  }
+
+  const correctPredictions = rows.filter((row, i) => {
+    const probability = sigmoid(row.reduce((sum, x, k) => sum + x * weights[k], 0));
+    return (probability >= 0.5 ? 1 : 0) === labels[i];
+  }).length;
+
+  return {
+    featureNames: ['bias', ...FEATURE_NAMES],
+    weights,
+    businessUnitRates,
+    trainedAt: Date.now(),
+    sampleCount: samples.length,
+    positiveCount: labels.filter(Boolean).length,
+    accuracy: Math.round((correctPredictions / rows.length) * 1000) / 10,
+  };
+};
+
+/**
+ * Probability (0-100) that the pair is a correct match
+ */
+export const predictMatchProbability = (model: RerankerModel, match: MatchResult): number => {
+  const row = [1, ...extractFeatures(match, model.businessUnitRates)];
+  const probability = sigmoid(row.reduce((sum, x, k) => sum + x * model.weights[k], 0));
+  return Math.round(probability * 10000) / 100;
+};
+
+export const loadRerankerModel = (): RerankerModel | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    const model = stored ? (JSON.parse(stored) as RerankerModel) : null;
+    // Models trained on a different feature set cannot be applied
+    return model && model.featureNames.length === FEATURE_NAMES.length + 1 ? model : null;
+  } catch (error) {
+    console.error('Error reading saved re-ranking model:', error);
+    return null;
+  }
+};
+
+export const saveRerankerModel = (model: RerankerModel | null): void => {
+  if (typeof window === 'undefined') return;
+  try {
+    if (model) window.localStorage.setItem(STORAGE_KEY, JSON.stringify(model));
+    else window.localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Error saving re-ranking model:', error);
+  }
+};
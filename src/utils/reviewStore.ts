@@ -0,0 +1,71 @@
+import { runTransaction, runWriteTransaction, STORE_NAMES } from './database';
+
+export type ReviewStatus = 'confirmed' | 'rejected' | 'needsReview';
+
+export const REVIEW_STATUSES: { id: ReviewStatus; label: string; icon: string }[] = [
+  { id: 'confirmed', label: 'Confirmed', icon: '✅' },
+  { id: 'rejected', label: 'Rejected', icon: '⛔' },
+  { id: 'needsReview', label: 'Needs review', icon: '🔎' },
+];
+
+/**
+ * A reviewer's decision on one tender line / Item Master pair. Pairs are keyed by
+ * codes and the line's SN so decisions survive re-runs and reloading the same files.
+ */
+export interface ReviewDecision {
+  id: string;
+  genConsumableCode: string;
+  genConsumableLine?: string; // SN of the tender line; absent when the decision covers every line with the code
+  itemMasterCode: string;
+  status: ReviewStatus | null; // null keeps just the note
+  note: string;
+  manual: boolean; // linked by hand rather than found by the matcher
+  updatedAt: number;
+}
+
+/**
+ * A tender line by NUPCO code and SN; tenders may list the same code on several lines
+ */
+export const getTenderLineKey = (genConsumableCode: string, genConsumableLine: string = ''): string => {
+  return genConsumableLine ? `${genConsumableCode}#${genConsumableLine}` : genConsumableCode;
+};
+
+export const getReviewKey = (genConsumableCode: string, itemMasterCode: string, genConsumableLine: string = ''): string => {
+  return `${getTenderLineKey(genConsumableCode, genConsumableLine)}::${itemMasterCode}`;
+};
+
+export const loadReviewDecisions = async (): Promise<ReviewDecision[]> => {
+  try {
+    return await runTransaction<ReviewDecision[]>(STORE_NAMES.reviewDecisions, 'readonly', store => store.getAll());
+  } catch (error) {
+    console.error('Error loading review decisions:', error);
+    return [];
+  }
+};
+
+export const saveReviewDecision = async (decision: ReviewDecision): Promise<void> => {
+  try {
+    await runTransaction(STORE_NAMES.reviewDecisions, 'readwrite', store => store.put(decision));
+  } catch (error) {
+    console.error('Error saving review decision:', error);
+  }
+};
+
+export const saveReviewDecisions = async (decisions: ReviewDecision[]): Promise<void> => {
+  try {
+    await runWriteTransaction([STORE_NAMES.reviewDecisions], transaction => {
+      const store = transaction.objectStore(STORE_NAMES.reviewDecisions);
+      decisions.forEach(decision => store.put(decision));
+    });
+  } catch (error) {
+    console.error('Error saving review decisions:', error);
+  }
+};
+
+export const deleteReviewDecision = async (id: string): Promise<void> => {
+  try {
+    await runTransaction(STORE_NAMES.reviewDecisions, 'readwrite', store => store.delete(id));
+  } catch (error) {
+    console.error('Error deleting review decision:', error);
+  }
+};
@@ -0,0 +1,223 @@
+import { compareTwoStrings } from 'string-similarity';
+
+export type BaseScorerId = 'dice' | 'tfidfCosine' | 'jaroWinkler' | 'tokenSetRatio';
+
+export type ScorerId = BaseScorerId | 'ensemble';
+
+/**
+ * Per-scorer similarity (0-100) recorded on each match
+ */
+export type SubScores = Record<BaseScorerId, number>;
+
+/**
+ * A normalized description with its sorted token ids (see matchEngine.encodeDescriptions)
+ */
+export interface ScorerText {
+  normalized: string;
+  tokenIds: ArrayLike<number>;
+}
+
+export interface SimilarityScorer {
+  id: ScorerId;
+  label: string;
+  description: string;
+  /** Similarity between 0 and 1; idf is indexed by token id */
+  score: (a: ScorerText, b: ScorerText, idf: Float64Array) => number;
+}
+
+const maxWeights = new WeakMap<Float64Array, number>();
+
+/**
+ * Weight of a token id; tokens never seen in the tender file get the highest weight,
+ * like the ones computeIdf gives a document frequency of 0
+ */
+const tokenWeight = (idf: Float64Array, id: number): number => {
+  if (id < idf.length) return idf[id];
+  if (idf.length === 0) return 1;
+  let max = maxWeights.get(idf);
+  if (max === undefined) {
+    max = idf.reduce((highest, weight) => Math.max(highest, weight), 0);
+    maxWeights.set(idf, max);
+  }
+  return max;
+};
+
+/**
+ * Cosine similarity of binary TF vectors weighted by IDF (token ids are sorted)
+ */
+const tfidfCosine = (a: ScorerText, b: ScorerText, idf: Float64Array): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  let i = 0;
+  let j = 0;
+
+  for (let k = 0; k < a.tokenIds.length; k++) normA += tokenWeight(idf, a.tokenIds[k]) ** 2;
+  for (let k = 0; k < b.tokenIds.length; k++) normB += tokenWeight(idf, b.tokenIds[k]) ** 2;
+
+  while (i < a.tokenIds.length && j < b.tokenIds.length) {
+    if (a.tokenIds[i] === b.tokenIds[j]) {
+      dot += tokenWeight(idf, a.tokenIds[i]) ** 2;
+      i++;
+      j++;
+    } else if (a.tokenIds[i] < b.tokenIds[j]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+};
+
+/**
+ * Jaro-Winkler similarity (prefix scale 0.1, up to 4 prefix characters)
+ */
+const jaroWinkler = (s1: string, s2: string): number => {
+  if (s1 === s2) return s1.length > 0 ? 1 : 0;
+  if (!s1 || !s2) return 0;
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(s1.length, s2.length) / 2) - 1);
+  const s1Matches = new Array<boolean>(s1.length).fill(false);
+  const s2Matches = new Array<boolean>(s2.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < s1.length; i++) {
+    const start = Math.max(0, i - matchWindow);
+    const end = Math.min(i + matchWindow + 1, s2.length);
+    for (let j = start; j < end; j++) {
+      if (s2Matches[j] || s1[i] !== s2[j]) continue;
+      s1Matches[i] = true;
+      s2Matches[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < s1.length; i++) {
+    if (!s1Matches[i]) continue;
+    while (!s2Matches[k]) k++;
+    if (s1[i] !== s2[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / s1.length + matches / s2.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, s1.length, s2.length) && s1[prefix] === s2[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+/**
+ * Levenshtein-based ratio between 0 and 1
+ */
+const levenshteinRatio = (s1: string, s2: string): number => {
+  if (s1 === s2) return 1;
+  const maxLength = Math.max(s1.length, s2.length);
+  if (maxLength === 0) return 1;
+
+  let previous = new Int32Array(s2.length + 1).map((_, j) => j);
+  let current = new Int32Array(s2.length + 1);
+  for (let i = 1; i <= s1.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= s2.length; j++) {
+      const cost = s1.charCodeAt(i - 1) === s2.charCodeAt(j - 1) ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return 1 - previous[s2.length] / maxLength;
+};
+
+/**
+ * Token-set ratio: compares the shared tokens against each side's full sorted token set,
+ * so word order and extra words on one side matter less
+ */
+const tokenSetRatio = (a: string, b: string): number => {
+  const tokensA = new Set(a.split(' ').filter(Boolean));
+  const tokensB = new Set(b.split(' ').filter(Boolean));
+  const intersection = Array.from(tokensA).filter(t => tokensB.has(t)).sort();
+  const onlyA = Array.from(tokensA).filter(t => !tokensB.has(t)).sort();
+  const onlyB = Array.from(tokensB).filter(t => !tokensA.has(t)).sort();
+
+  const common = intersection.join(' ');
+  const combinedA = [common, onlyA.join(' ')].filter(Boolean).join(' ');
+  const combinedB = [common, onlyB.join(' ')].filter(Boolean).join(' ');
+
+  const ratios = [levenshteinRatio(combinedA, combinedB)];
+  if (common) {
+    ratios.push(levenshteinRatio(common, combinedA), levenshteinRatio(common, combinedB));
+  }
+  return Math.max(...ratios);
+};
+
+// Weights of the ensemble; they sum to 1
+export const ENSEMBLE_WEIGHTS: SubScores = {
+  dice: 0.35,
+  tfidfCosine: 0.25,
+  jaroWinkler: 0.15,
+  tokenSetRatio: 0.25,
+};
+
+const BASE_SCORERS: Record<BaseScorerId, SimilarityScorer> = {
+  dice: {
+    id: 'dice',
+    label: 'Dice bigrams',
+    description: 'Character bigram overlap (string-similarity)',
+    score: (a, b) => compareTwoStrings(a.normalized, b.normalized),
+  },
+  tfidfCosine: {
+    id: 'tfidfCosine',
+    label: 'TF-IDF cosine',
+    description: 'Shared words weighted by how rare they are in the tender file',
+    score: tfidfCosine,
+  },
+  jaroWinkler: {
+    id: 'jaroWinkler',
+    label: 'Jaro-Winkler',
+    description: 'Character transpositions with a bonus for a common prefix',
+    score: (a, b) => jaroWinkler(a.normalized, b.normalized),
+  },
+  tokenSetRatio: {
+    id: 'tokenSetRatio',
+    label: 'Token-set ratio',
+    description: 'Edit distance over sorted shared and remaining words',
+    score: (a, b) => tokenSetRatio(a.normalized, b.normalized),
+  },
+};
+
+export const BASE_SCORER_IDS = Object.keys(BASE_SCORERS) as BaseScorerId[];
+
+const ensembleScorer: SimilarityScorer = {
+  id: 'ensemble',
+  label: 'Weighted ensemble',
+  description: 'Weighted average of all scorers',
+  score: (a, b, idf) => BASE_SCORER_IDS.reduce(
+    (sum, id) => sum + ENSEMBLE_WEIGHTS[id] * BASE_SCORERS[id].score(a, b, idf),
+    0
+  ),
+};
+
+export const SCORERS: Record<ScorerId, SimilarityScorer> = {
+  ...BASE_SCORERS,
+  ensemble: ensembleScorer,
+};
+
+export const DEFAULT_SCORER: ScorerId = 'dice';
+
+/**
+ * Score a pair with every base scorer, as percentages with 2 decimal places
+ */
+export const calculateSubScores = (a: ScorerText, b: ScorerText, idf: Float64Array): SubScores => {
+  const subScores = {} as SubScores;
+  BASE_SCORER_IDS.forEach(id => {
+    subScores[id] = Math.round(BASE_SCORERS[id].score(a, b, idf) * 10000) / 100;
+  });
+  return subScores;
+};
@@ -0,0 +1,251 @@
+import { parseLocaleNumber } from './fileParser';
+import { MatchSummary } from './matcher';
+
+interface SearchField {
+  names: string[]; // first one is shown in help
+  label: string;
+  text?: (match: MatchSummary) => (string | undefined)[];
+  number?: (match: MatchSummary) => number | null;
+}
+
+export const SEARCH_FIELDS: SearchField[] = [
+  { names: ['desc', 'description'], label: 'either description', text: m => [m.itemMasterDescription, m.genConsumableDescription] },
+  { names: ['item'], label: 'Item Master description', text: m => [m.itemMasterDescription] },
+  { names: ['tender'], label: 'tender description', text: m => [m.genConsumableDescription] },
+  { names: ['code'], label: 'Item Code', text: m => [m.itemMasterRecord.code] },
+  { names: ['nupco'], label: 'NUPCO code', text: m => [m.genConsumableRecord.code] },
+  { names: ['bu', 'unit'], label: 'Business Unit', text: m => [m.itemMasterRecord.category] },
+  { names: ['cat', 'category'], label: 'tender group category', text: m => [m.genConsumableRecord.category] },
+  { names: ['mfr', 'manufacturer'], label: 'Manufacturer', text: m => [m.itemMasterRecord.manufacturer] },
+  { names: ['type'], label: 'Item Type', text: m => [m.itemMasterRecord.itemType] },
+  { names: ['uom'], label: 'either UOM', text: m => [m.itemMasterRecord.uom, m.genConsumableRecord.uom] },
+  { names: ['score'], label: 'match %', number: m => m.matchPercentage },
+  { names: ['qty', 'quantity'], label: 'tender quantity', number: m => parseLocaleNumber(m.genConsumableRecord.quantity) },
+];
+
+// Unscoped terms look where the plain search always did
+const DEFAULT_FIELD: SearchField = {
+  names: [],
+  label: 'descriptions and codes',
+  text: m => [m.itemMasterDescription, m.genConsumableDescription, m.itemMasterRecord.code, m.genConsumableRecord.code],
+};
+
+const FIELDS_BY_NAME = new Map(SEARCH_FIELDS.flatMap(field => field.names.map(name => [name, field] as const)));
+
+/**
+ * A search query that could not be parsed; position is the offending character
+ */
+export class QuerySyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+    this.position = position;
+    Object.setPrototypeOf(this, QuerySyntaxError.prototype);
+  }
+}
+
+export type MatchPredicate = (match: MatchSummary) => boolean;
+
+type Token =
+  | { type: 'open' | 'close' | 'or' | 'not'; position: number }
+  | { type: 'term'; position: number; field: SearchField; value: string; style: 'plain' | 'quoted' | 'regex'; flags: string };
+
+const TERM_END = /[\s()]/;
+
+const readUntil = (query: string, start: number, closing: string, what: string): number => {
+  for (let i = start; i < query.length; i++) {
+    if (query[i] === '\\') i++;
+    else if (query[i] === closing) return i;
+  }
+  throw new QuerySyntaxError(`Unclosed ${what} starting at character ${start}`, start - 1);
+};
+
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close', position: i++ });
+    } else if (char === '|') {
+      tokens.push({ type: 'or', position: i++ });
+    } else if (char === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      tokens.push({ type: 'not', position: i++ });
+    } else {
+      const position = i;
+      const prefix = /^([A-Za-z]+):/.exec(query.slice(i));
+      let field = DEFAULT_FIELD;
+      if (prefix) {
+        const named = FIELDS_BY_NAME.get(prefix[1].toLowerCase());
+        if (!named) {
+          const known = SEARCH_FIELDS.map(f => f.names[0]).join(', ');
+          throw new QuerySyntaxError(`Unknown field "${prefix[1]}". Try one of: ${known}`, position);
+        }
+        field = named;
+        i += prefix[0].length;
+      }
+
+      if (query[i] === '"') {
+        const end = readUntil(query, i + 1, '"', 'quote');
+        tokens.push({ type: 'term', position, field, value: query.slice(i + 1, end).replace(/\\(.)/g, '$1'), style: 'quoted', flags: '' });
+        i = end + 1;
+      } else if (query[i] === '/') {
+        const end = readUntil(query, i + 1, '/', 'regular expression');
+        const flags = /^[a-z]*/.exec(query.slice(end + 1))?.[0] ?? '';
+        tokens.push({ type: 'term', position, field, value: query.slice(i + 1, end), style: 'regex', flags });
+        i = end + 1 + flags.length;
+      } else {
+        const start = i;
+        while (i < query.length && !TERM_END.test(query[i])) i++;
+        const value = query.slice(start, i);
+        if (!value) throw new QuerySyntaxError(`Missing a value after "${prefix?.[0] ?? ''}"`, position);
+        if (field === DEFAULT_FIELD && (value === 'OR' || value === 'AND' || value === 'NOT')) {
+          // AND is what adjacent terms do anyway
+          if (value !== 'AND') tokens.push({ type: value === 'OR' ? 'or' : 'not', position });
+        } else {
+          tokens.push({ type: 'term', position, field, value, style: 'plain', flags: '' });
+        }
+      }
+    }
+  }
+  return tokens;
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const parseNumber = (text: string): number | null => (/^-?\d+(\.\d+)?$/.test(text) ? Number(text) : null);
+
+// score:>85, score:<=50, score:85, score:80..90
+const compileComparison = (token: Extract<Token, { type: 'term' }>): ((value: number) => boolean) => {
+  const fieldName = token.field.names[0];
+  const invalid = () => new QuerySyntaxError(`${fieldName} needs a number, e.g. ${fieldName}:>85 or ${fieldName}:80..90`, token.position);
+  if (token.style !== 'plain') throw invalid();
+
+  const range = /^(.+)\.\.(.+)$/.exec(token.value);
+  if (range) {
+    const from = parseNumber(range[1]);
+    const to = parseNumber(range[2]);
+    if (from === null || to === null) throw invalid();
+    return value => value >= from && value <= to;
+  }
+  const comparison = /^(>=|<=|>|<|=)?(.*)$/.exec(token.value) as RegExpExecArray;
+  const target = parseNumber(comparison[2]);
+  if (target === null) throw invalid();
+  switch (comparison[1]) {
+    case '>': return value => value > target;
+    case '>=': return value => value >= target;
+    case '<': return value => value < target;
+    case '<=': return value => value <= target;
+    default: return value => value === target;
+  }
+};
+
+const compileTextTest = (token: Extract<Token, { type: 'term' }>): ((text: string) => boolean) => {
+  if (token.style === 'regex') {
+    try {
+      // Always case-insensitive; g and y would make test() remember where it stopped
+      const flags = token.flags.replace(/[giy]/g, '');
+      const pattern = new RegExp(token.value, `${flags}i`);
+      return text => pattern.test(text);
+    } catch (error) {
+      const reason = (error as Error).message.replace(/^Invalid regular expression: \/.*\/[a-z]*: /, '');
+      throw new QuerySyntaxError(`Invalid regular expression /${token.value}/: ${reason}`, token.position);
+    }
+  }
+  if (token.style === 'plain' && /[*?]/.test(token.value)) {
+    // Wildcards match whole words: nupco:4214* is a code starting with 4214
+    const body = token.value.split('').map(c => (c === '*' ? '\\S*' : c === '?' ? '\\S' : escapeRegExp(c))).join('');
+    const pattern = new RegExp(`(?:^|\\s)${body}(?=\\s|$)`, 'i');
+    return text => pattern.test(text);
+  }
+  const needle = token.value.toLowerCase();
+  return text => text.toLowerCase().includes(needle);
+};
+
+const compileTerm = (token: Extract<Token, { type: 'term' }>): MatchPredicate => {
+  const { field } = token;
+  if (field.number) {
+    const getNumber = field.number;
+    const test = compileComparison(token);
+    return match => {
+      const value = getNumber(match);
+      return value !== null && test(value);
+    };
+  }
+  const getTexts = field.text as NonNullable<SearchField['text']>;
+  const test = compileTextTest(token);
+  return match => getTexts(match).some(text => test(String(text ?? '')));
+};
+
+/**
+ * Compile a search query into a filter over match results:
+ *
+ *   glove latex           both words, anywhere in the descriptions or codes
+ *   bu:"Wound Care"       a phrase in one field (see SEARCH_FIELDS)
+ *   nupco:4214*           wildcards (* any run, ? one character) over whole words
+ *   score:>85 qty:10..50  numeric comparisons and inclusive ranges
+ *   -latex  NOT latex     negation, also of (groups)
+ *   a OR b  a | b         alternatives; binds looser than the implicit AND
+ *   desc:/\d+\s?ml/       case-insensitive regular expressions
+ *
+ * Returns null for an empty query; throws QuerySyntaxError on a malformed one.
+ */
+export const compileSearchQuery = (query: string): MatchPredicate | null => {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return null;
+  let index = 0;
+
+  const parseOr = (): MatchPredicate => {
+    const alternatives = [parseAnd()];
+    while (tokens[index]?.type === 'or') {
+      index++;
+      alternatives.push(parseAnd());
+    }
+    return alternatives.length === 1 ? alternatives[0] : match => alternatives.some(test => test(match));
+  };
+
+  const parseAnd = (): MatchPredicate => {
+    const terms: MatchPredicate[] = [];
+    while (index < tokens.length && tokens[index].type !== 'or' && tokens[index].type !== 'close') {
+      terms.push(parseUnary());
+    }
+    if (terms.length === 0) {
+      const token = tokens[index] ?? tokens[index - 1];
+      throw new QuerySyntaxError(
+        token && index < tokens.length ? `Expected a search term at character ${token.position + 1}` : 'The query ends where a search term was expected',
+        token?.position ?? 0
+      );
+    }
+    return terms.length === 1 ? terms[0] : match => terms.every(test => test(match));
+  };
+
+  const parseUnary = (): MatchPredicate => {
+    const token = tokens[index++];
+    if (!token) throw new QuerySyntaxError('The query ends where a search term was expected', query.length);
+    if (token.type === 'not') {
+      const negated = parseUnary();
+      return match => !negated(match);
+    }
+    if (token.type === 'open') {
+      const group = parseOr();
+      if (tokens[index]?.type !== 'close') {
+        throw new QuerySyntaxError(`Unclosed parenthesis at character ${token.position + 1}`, token.position);
+      }
+      index++;
+      return group;
+    }
+    if (token.type === 'term') return compileTerm(token);
+    throw new QuerySyntaxError(`Unexpected "${query[token.position]}" at character ${token.position + 1}`, token.position);
+  };
+
+  const predicate = parseOr();
+  if (index < tokens.length) {
+    const token = tokens[index];
+    throw new QuerySyntaxError(`Unexpected ")" at character ${token.position + 1}`, token.position);
+  }
+  return predicate;
+};
@@ -0,0 +1,301 @@
+import { ItemMasterRow, GenConsumableRow, RawSheet } from './fileParser';
+import { applyColumnMapping, ColumnMapping, MAPPED_FIELDS, MatchRecord } from './columnMapping';
+import { MatchPairs } from './matchEngine';
+import { MatchSettings } from './matcher';
+import { MATCH_QUALITY_LABELS, MatchQuality } from './pricing';
+import { FACETS, FacetSelection } from './facets';
+import { SCORERS } from './scorers';
+import { ATTRIBUTE_MODES } from './medicalAttributes';
+import { REVIEW_STATUSES, ReviewDecision, ReviewStatus } from './reviewStore';
+import { runTransaction, runWriteTransaction, STORE_NAMES } from './database';
+
+export type ReviewFilter = 'active' | 'unreviewed' | ReviewStatus;
+export type QualityFilter = 'all' | MatchQuality;
+export type DashboardView = 'matches' | 'coverage' | 'revenue';
+
+/**
+ * One uploaded input file as matched: where it came from and how its columns were read
+ */
+export interface SessionFileInfo {
+  fileName: string;
+  hash: string; // of the file contents, "<algorithm>:<hex>"
+  mapping: ColumnMapping;
+}
+
+export interface SessionFile<T> extends SessionFileInfo {
+  rows: T[];
+  sheet?: RawSheet; // tender only; absent in sessions saved before it was kept
+}
+
+export interface SessionFilters {
+  minThreshold: number;
+  searchTerm: string;
+  filterQuality: QualityFilter;
+  reviewFilter: ReviewFilter;
+  view: DashboardView;
+  facets?: FacetSelection; // absent in sessions saved before attribute filters
+}
+
+/**
+ * A saved match run: its inputs, settings, candidate pairs, filters and reviews.
+ * Results are rebuilt from the candidate pairs, which index into the saved rows.
+ */
+export interface MatchSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  itemMaster: SessionFile<ItemMasterRow>;
+  genConsumable: SessionFile<GenConsumableRow>;
+  settings: MatchSettings;
+  candidateThreshold: number;
+  pairs: MatchPairs;
+  filters: SessionFilters;
+  reviews: ReviewDecision[]; // decisions on this session's tender lines
+}
+
+/**
+ * What the session list shows, stored apart from the sessions so listing stays cheap
+ */
+export interface MatchSessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  itemMaster: SessionFileInfo & { rowCount: number };
+  genConsumable: SessionFileInfo & { rowCount: number };
+  pairCount: number;
+  reviewCount: number;
+}
+
+const EXPORT_FORMAT = 'match-session';
+const EXPORT_VERSION = 1;
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+// 64-bit FNV-1a, for pages served over plain HTTP where crypto.subtle is unavailable
+const fnv1a64 = (bytes: Uint8Array): string => {
+  let hash = BigInt('0xcbf29ce484222325');
+  const prime = BigInt('0x100000001b3');
+  const mask = BigInt('0xffffffffffffffff');
+  bytes.forEach(byte => {
+    hash = ((hash ^ BigInt(byte)) * prime) & mask;
+  });
+  return hash.toString(16).padStart(16, '0');
+};
+
+/**
+ * Fingerprint of an input file, to tell whether two sessions were run on the same data
+ */
+export const hashFileContent = async (content: ArrayBuffer | string): Promise<string> => {
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : new Uint8Array(content);
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    return `sha256:${toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', bytes)))}`;
+  }
+  return `fnv1a64:${fnv1a64(bytes)}`;
+};
+
+export const createSessionId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+export const toSessionSummary = (session: MatchSession): MatchSessionSummary => {
+  const { itemMaster, genConsumable } = session;
+  return {
+    id: session.id,
+    name: session.name,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    itemMaster: { fileName: itemMaster.fileName, hash: itemMaster.hash, mapping: itemMaster.mapping, rowCount: itemMaster.rows.length },
+    genConsumable: {
+      fileName: genConsumable.fileName,
+      hash: genConsumable.hash,
+      mapping: genConsumable.mapping,
+      rowCount: genConsumable.rows.length,
+    },
+    pairCount: session.pairs.scores.length,
+    reviewCount: session.reviews.length,
+  };
+};
+
+/**
+ * Matcher records of a session, in the order its candidate pairs refer to
+ */
+export const getSessionRecords = (session: MatchSession) => ({
+  itemMasterData: applyColumnMapping(session.itemMaster.rows, session.itemMaster.mapping),
+  genConsumableData: applyColumnMapping(session.genConsumable.rows, session.genConsumable.mapping),
+});
+
+/**
+ * Decisions that belong in a session: those on its tender lines
+ */
+export const selectSessionReviews = (
+  decisions: Iterable<ReviewDecision>,
+  genConsumableData: MatchRecord<GenConsumableRow>[]
+): ReviewDecision[] => {
+  const lineCodes = new Set(genConsumableData.map(line => line.code));
+  return Array.from(decisions).filter(decision => lineCodes.has(decision.genConsumableCode));
+};
+
+export const listSessions = async (): Promise<MatchSessionSummary[]> => {
+  try {
+    const summaries = await runTransaction<MatchSessionSummary[]>(STORE_NAMES.sessionSummaries, 'readonly', store => store.getAll());
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.error('Error listing saved sessions:', error);
+    return [];
+  }
+};
+
+export const loadSession = async (id: string): Promise<MatchSession | null> => {
+  try {
+    return (await runTransaction<MatchSession | undefined>(STORE_NAMES.sessions, 'readonly', store => store.get(id))) ?? null;
+  } catch (error) {
+    console.error('Error loading session:', error);
+    return null;
+  }
+};
+
+/**
+ * Save a session and its summary together; throws so the caller can report a full disk
+ */
+export const saveSession = async (session: MatchSession): Promise<void> => {
+  await runWriteTransaction([STORE_NAMES.sessions, STORE_NAMES.sessionSummaries], transaction => {
+    transaction.objectStore(STORE_NAMES.sessions).put(session);
+    transaction.objectStore(STORE_NAMES.sessionSummaries).put(toSessionSummary(session));
+  });
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  try {
+    await runWriteTransaction([STORE_NAMES.sessions, STORE_NAMES.sessionSummaries], transaction => {
+      transaction.objectStore(STORE_NAMES.sessions).delete(id);
+      transaction.objectStore(STORE_NAMES.sessionSummaries).delete(id);
+    });
+  } catch (error) {
+    console.error('Error deleting session:', error);
+  }
+};
+
+export const serializeSession = (session: MatchSession): string => {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, session });
+};
+
+const isPairList = (pairs: unknown): pairs is MatchPairs => {
+  const { itemIndices, genIndices, scores } = (pairs ?? {}) as Partial<Record<keyof MatchPairs, unknown>>;
+  return Array.isArray(itemIndices) && Array.isArray(genIndices) && Array.isArray(scores)
+    && itemIndices.length === scores.length && genIndices.length === scores.length
+    && scores.every(score => typeof score === 'number' && score >= 0 && score <= 100);
+};
+
+const DASHBOARD_VIEWS: DashboardView[] = ['matches', 'coverage', 'revenue'];
+const QUALITY_FILTERS: QualityFilter[] = ['all', ...(Object.keys(MATCH_QUALITY_LABELS) as MatchQuality[])];
+const REVIEW_FILTERS: ReviewFilter[] = ['active', 'unreviewed', ...REVIEW_STATUSES.map(status => status.id)];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isStringList = (value: unknown): value is string[] => {
+  return Array.isArray(value) && value.every(entry => typeof entry === 'string');
+};
+
+// Fields added since a session was saved may be missing; they read as unmapped
+const isColumnMapping = (mapping: unknown): mapping is ColumnMapping => {
+  return isRecord(mapping) && MAPPED_FIELDS.every(({ key, required }) => (
+    required ? typeof mapping[key] === 'string' && mapping[key] !== '' : mapping[key] === undefined || typeof mapping[key] === 'string'
+  ));
+};
+
+const isRawSheet = (sheet: unknown, rowCount: number): sheet is RawSheet => {
+  if (!isRecord(sheet) || !Array.isArray(sheet.cells) || !sheet.cells.every(isStringList)) return false;
+  const { cells, sourceRows } = sheet;
+  return Array.isArray(sourceRows) && sourceRows.length === rowCount
+    && sourceRows.every(row => Number.isInteger(row) && row > 0 && row < cells.length);
+};
+
+const isSessionFile = (file: unknown): file is SessionFile<unknown> => {
+  return isRecord(file) && typeof file.fileName === 'string' && typeof file.hash === 'string'
+    && isColumnMapping(file.mapping) && Array.isArray(file.rows) && file.rows.every(isRecord)
+    && (file.sheet === undefined || isRawSheet(file.sheet, file.rows.length));
+};
+
+const isMatchSettings = (settings: unknown): settings is MatchSettings => {
+  return isRecord(settings)
+    && Object.keys(SCORERS).includes(settings.scorer as string)
+    && ATTRIBUTE_MODES.some(mode => mode.id === settings.attributeMode)
+    && Array.isArray(settings.synonyms)
+    && settings.synonyms.every(entry => isRecord(entry) && typeof entry.term === 'string' && isStringList(entry.synonyms))
+    && typeof settings.assignmentCapacity === 'number' && Number.isInteger(settings.assignmentCapacity)
+    && settings.assignmentCapacity >= 0;
+};
+
+const isSessionFilters = (filters: unknown): filters is SessionFilters => {
+  if (!isRecord(filters)) return false;
+  const { minThreshold, searchTerm, filterQuality, reviewFilter, view, facets } = filters;
+  return typeof minThreshold === 'number' && minThreshold >= 0 && minThreshold <= 100
+    && typeof searchTerm === 'string'
+    && QUALITY_FILTERS.includes(filterQuality as QualityFilter)
+    && REVIEW_FILTERS.includes(reviewFilter as ReviewFilter)
+    && DASHBOARD_VIEWS.includes(view as DashboardView)
+    && (facets === undefined || (isRecord(facets) && Object.entries(facets).every(([id, values]) => (
+      FACETS.some(facet => facet.id === id) && (values === undefined || isStringList(values))
+    ))));
+};
+
+const isReviewDecision = (decision: unknown): decision is ReviewDecision => {
+  return isRecord(decision)
+    && typeof decision.id === 'string'
+    && typeof decision.genConsumableCode === 'string'
+    && (decision.genConsumableLine === undefined || typeof decision.genConsumableLine === 'string')
+    && typeof decision.itemMasterCode === 'string'
+    && (decision.status === null || REVIEW_STATUSES.some(status => status.id === decision.status))
+    && typeof decision.note === 'string'
+    && typeof decision.manual === 'boolean'
+    && typeof decision.updatedAt === 'number';
+};
+
+/**
+ * Read a session exported with serializeSession; checks every part a reopen relies on,
+ * so a damaged file is rejected here rather than saved and failing later
+ */
+export const parseSessionJson = (json: string): MatchSession => {
+  const data = JSON.parse(json) as { format?: unknown; version?: unknown; session?: Partial<MatchSession> };
+  if (data?.format !== EXPORT_FORMAT || !data.session) {
+    throw new Error('This file is not an exported match session.');
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new Error('This session was exported by a newer version of the dashboard.');
+  }
+
+  const session = data.session;
+  if (
+    typeof session.id !== 'string'
+    || typeof session.name !== 'string'
+    || typeof session.createdAt !== 'number'
+    || typeof session.updatedAt !== 'number'
+    || typeof session.candidateThreshold !== 'number'
+    || !isSessionFile(session.itemMaster)
+    || !isSessionFile(session.genConsumable)
+    || !isPairList(session.pairs)
+  ) {
+    throw new Error('The session file is incomplete or damaged.');
+  }
+  if (!isMatchSettings(session.settings)) {
+    throw new Error('The session file has invalid matcher settings.');
+  }
+  if (!isSessionFilters(session.filters)) {
+    throw new Error('The session file has invalid filters.');
+  }
+  if (session.reviews !== undefined && !(Array.isArray(session.reviews) && session.reviews.every(isReviewDecision))) {
+    throw new Error('The session file has invalid review decisions.');
+  }
+  const itemCount = session.itemMaster.rows.length;
+  const genCount = session.genConsumable.rows.length;
+  const { itemIndices, genIndices } = session.pairs;
+  const isIndex = (idx: number, count: number) => Number.isInteger(idx) && idx >= 0 && idx < count;
+  if (itemIndices.some(idx => !isIndex(idx, itemCount)) || genIndices.some(idx => !isIndex(idx, genCount))) {
+    throw new Error('The session file refers to rows it does not contain.');
+  }
+  return { ...session, reviews: Array.isArray(session.reviews) ? session.reviews : [] } as MatchSession;
+};
@@ -0,0 +1,162 @@
+/**
+ * A canonical term and the abbreviations / spellings that mean the same thing
+ */
+export interface SynonymEntry {
+  term: string;
+  synonyms: string[];
+}
+
+/**
+ * Dictionary compiled for fast replacement during normalization
+ */
+export interface SynonymTable {
+  pattern: RegExp | null;
+  terms: Map<string, string>; // lowercase synonym -> lowercase term
+}
+
+/**
+ * Where a term was reached through a synonym on at least one side of a match
+ */
+export interface SynonymMatch {
+  term: string;
+  itemMasterText: string;
+  genConsumableText: string;
+}
+
+// Abbreviations seen in the Item Master that the NUPCO tender spells out. Only those with one
+// meaning are shipped; ambiguous ones such as ABS (absorbent or the plastic), CS (case or carbon
+// steel), NS, PP, LL, IV and DISP are left for users to add where they fit.
+export const DEFAULT_SYNONYMS: SynonymEntry[] = [
+  { term: 'catheter', synonyms: ['cath'] },
+  { term: 'suture', synonyms: ['sut'] },
+  { term: 'gauze', synonyms: ['gze'] },
+  { term: 'with', synonyms: ['w/'] },
+  { term: 'without', synonyms: ['w/o', 'wo/'] },
+  { term: 'box', synonyms: ['bx'] },
+  { term: 'pack', synonyms: ['pk', 'pkt'] },
+  { term: 'sterile', synonyms: ['strl', 'ster'] },
+  { term: 'adhesive', synonyms: ['adh'] },
+  { term: 'surgical', synonyms: ['surg'] },
+  { term: 'elastic', synonyms: ['elas'] },
+  { term: 'small', synonyms: ['sml'] },
+  { term: 'large', synonyms: ['lrg'] },
+];
+
+const STORAGE_KEY = 'synonymDictionary';
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isAlphanumeric = (char: string): boolean => /[a-z0-9]/.test(char);
+
+const cleanEntry = ({ term, synonyms }: SynonymEntry): SynonymEntry => ({
+  term: term.trim().toLowerCase().replace(/\s+/g, ' '),
+  synonyms: synonyms.map(s => s.trim().toLowerCase().replace(/\s+/g, ' ')).filter(Boolean),
+});
+
+export const compileSynonyms = (entries: SynonymEntry[]): SynonymTable => {
+  const terms = new Map<string, string>();
+  entries.map(cleanEntry).forEach(({ term, synonyms }) => {
+    if (!term) return;
+    synonyms.forEach(synonym => {
+      if (synonym !== term) terms.set(synonym, term);
+    });
+  });
+  if (terms.size === 0) return { pattern: null, terms };
+
+  // Longest first so "w/o" wins over "w/"; word boundaries only where the synonym has a word edge
+  const alternatives = Array.from(terms.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(synonym => {
+      const start = isAlphanumeric(synonym[0]) ? '(?<![a-z0-9])' : '';
+      const end = isAlphanumeric(synonym[synonym.length - 1]) ? '(?![a-z0-9])' : '';
+      return `${start}${escapeRegExp(synonym)}${end}`;
+    });
+  return { pattern: new RegExp(alternatives.join('|'), 'g'), terms };
+};
+
+export const EMPTY_SYNONYM_TABLE: SynonymTable = { pattern: null, terms: new Map() };
+
+/**
+ * Replace synonyms in lowercased text with their canonical term
+ */
+export const applySynonyms = (text: string, { pattern, terms }: SynonymTable): string => {
+  const lower = text.toLowerCase();
+  if (!pattern) return lower;
+  return lower.replace(pattern, synonym => {
+    const term = terms.get(synonym) ?? synonym;
+    // "w/needle" -> "with needle"
+    return isAlphanumeric(synonym[synonym.length - 1]) ? term : `${term} `;
+  });
+};
+
+const containsTerm = (expanded: string, term: string): boolean => {
+  return ` ${expanded.replace(/[^\w\s]/g, ' ').replace(/\s+/g, ' ')} `.includes(` ${term} `);
+};
+
+/**
+ * Terms shared by both descriptions only once synonyms are applied
+ */
+export const findSynonymMatches = (desc1: string, desc2: string, table: SynonymTable): SynonymMatch[] => {
+  const { pattern, terms } = table;
+  if (!pattern) return [];
+
+  const usedSynonyms = (text: string): Map<string, string> => {
+    const used = new Map<string, string>();
+    Array.from(text.toLowerCase().matchAll(pattern), ([synonym]) => used.set(terms.get(synonym) as string, synonym));
+    return used;
+  };
+  const used1 = usedSynonyms(desc1);
+  const used2 = usedSynonyms(desc2);
+  const expanded1 = applySynonyms(desc1, table);
+  const expanded2 = applySynonyms(desc2, table);
+
+  const candidates = new Set([...Array.from(used1.keys()), ...Array.from(used2.keys())]);
+  return Array.from(candidates)
+    .filter(term => containsTerm(expanded1, term) && containsTerm(expanded2, term))
+    .map(term => ({
+      term,
+      itemMasterText: used1.get(term) ?? term,
+      genConsumableText: used2.get(term) ?? term,
+    }))
+    .filter(match => match.itemMasterText !== match.genConsumableText);
+};
+
+/**
+ * Accept either an entry list or a { term: [synonyms] } object
+ */
+export const parseSynonymJson = (json: string): SynonymEntry[] => {
+  const data: unknown = JSON.parse(json);
+  const entries: unknown[] = Array.isArray(data)
+    ? data
+    : Object.entries((data ?? {}) as Record<string, unknown>).map(([term, synonyms]) => ({ term, synonyms }));
+
+  return entries.map((entry, idx) => {
+    const { term, synonyms } = (entry ?? {}) as Partial<Record<keyof SynonymEntry, unknown>>;
+    if (typeof term !== 'string' || !Array.isArray(synonyms) || !synonyms.every(s => typeof s === 'string')) {
+      throw new Error(`Entry ${idx + 1} must have a "term" string and a "synonyms" list of strings`);
+    }
+    return cleanEntry({ term, synonyms: synonyms as string[] });
+  });
+};
+
+export const serializeSynonyms = (entries: SynonymEntry[]): string => JSON.stringify(entries, null, 2);
+
+export const loadSynonyms = (): SynonymEntry[] => {
+  if (typeof window === 'undefined') return DEFAULT_SYNONYMS;
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? parseSynonymJson(stored) : DEFAULT_SYNONYMS;
+  } catch (error) {
+    console.error('Error reading saved synonym dictionary:', error);
+    return DEFAULT_SYNONYMS;
+  }
+};
+
+export const saveSynonyms = (entries: SynonymEntry[]): void => {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, serializeSynonyms(entries));
+  } catch (error) {
+    console.error('Error saving synonym dictionary:', error);
+  }
+};
@@ -0,0 +1,161 @@
+import { parseLocaleNumber } from './fileParser';
+
+export type UnitKind = 'count' | 'container' | 'mass' | 'volume' | 'length';
+
+interface UnitDefinition {
+  unit: string;
+  kind: UnitKind;
+  aliases: string[];
+  size: number | null; // base units (EA, g, ml, mm) in one unit; null for containers and standalone units
+}
+
+/**
+ * Canonical units with the spellings found in Item Master and tender files
+ */
+const UNITS: UnitDefinition[] = [
+  { unit: 'EA', kind: 'count', aliases: ['EA', 'EACH', 'PC', 'PCS', 'PIECE', 'PIECES', 'NO', 'NOS', 'UNIT', 'UN'], size: 1 },
+  { unit: 'KIT', kind: 'count', aliases: ['KIT', 'KITS'], size: 1 },
+  { unit: 'SET', kind: 'count', aliases: ['SET', 'SETS'], size: 1 },
+  { unit: 'DZ', kind: 'count', aliases: ['DZ', 'DOZ', 'DOZEN'], size: 12 },
+  // Sold as a unit of their own; a pair of gloves is not two "each"
+  { unit: 'PR', kind: 'count', aliases: ['PR', 'PAIR', 'PAIRS'], size: null },
+  { unit: 'ROLL', kind: 'count', aliases: ['ROLL', 'ROL', 'RL', 'ROLLS'], size: null },
+  { unit: 'BOX', kind: 'container', aliases: ['BOX', 'BX', 'BOXES'], size: null },
+  { unit: 'CASE', kind: 'container', aliases: ['CASE', 'CS', 'CTN', 'CARTON'], size: null },
+  { unit: 'PACK', kind: 'container', aliases: ['PACK', 'PK', 'PKT', 'PAC', 'PACKET'], size: null },
+  { unit: 'BAG', kind: 'container', aliases: ['BAG', 'BG'], size: null },
+  { unit: 'KG', kind: 'mass', aliases: ['KG', 'KGS'], size: 1000 },
+  { unit: 'G', kind: 'mass', aliases: ['G', 'GM', 'GRAM'], size: 1 },
+  { unit: 'L', kind: 'volume', aliases: ['L', 'LTR', 'LITRE', 'LITER'], size: 1000 },
+  { unit: 'ML', kind: 'volume', aliases: ['ML'], size: 1 },
+  { unit: 'M', kind: 'length', aliases: ['M', 'MTR', 'METER', 'METRE'], size: 1000 },
+  { unit: 'CM', kind: 'length', aliases: ['CM'], size: 10 },
+  { unit: 'MM', kind: 'length', aliases: ['MM'], size: 1 },
+];
+
+const UNITS_BY_ALIAS = new Map(UNITS.flatMap(definition => definition.aliases.map(alias => [alias, definition])));
+
+const CONTAINER_ALIASES = UNITS.filter(u => u.kind === 'container').flatMap(u => u.aliases).join('|');
+
+// "48/CS", "100PCS/BOX", "5EA/PK"
+const PACK_SIZE_PATTERN = new RegExp(`\\b(\\d+)\\s*(?:PCS|PC|EA)?\\s*\\/\\s*(${CONTAINER_ALIASES})\\b`, 'g');
+// "BOX OF 20"
+const PACK_OF_PATTERN = new RegExp(`\\b(${CONTAINER_ALIASES})\\s+OF\\s+(\\d+)\\b`, 'g');
+// Item Master codes units of a fixed size, e.g. "B50" for a box of 50
+const SIZED_BOX_PATTERN = /^B(\d+)$/;
+
+export interface NormalizedUom {
+  raw: string;
+  unit: string | null; // canonical unit, null when not recognized
+  kind: UnitKind | null;
+  size: number | null;
+}
+
+export type UomStatus = 'same' | 'convertible' | 'unknown' | 'incompatible';
+
+/**
+ * How a tender line's unit relates to the unit we sell the matched product in
+ */
+export interface UomComparison {
+  status: UomStatus;
+  itemMasterUnit: string;
+  genConsumableUnit: string;
+  factor: number | null; // our selling units per tender unit
+  note: string;
+}
+
+export const UOM_STATUS_LABELS: Record<UomStatus, string> = {
+  same: 'Same unit',
+  convertible: 'Convertible',
+  unknown: 'Check pack size',
+  incompatible: 'Incompatible units',
+};
+
+export const normalizeUom = (raw: string): NormalizedUom => {
+  const value = raw.trim().toUpperCase().replace(/\.$/, '');
+  const sizedBox = value.match(SIZED_BOX_PATTERN);
+  if (sizedBox) return { raw, unit: 'BOX', kind: 'container', size: parseInt(sizedBox[1], 10) };
+
+  const definition = UNITS_BY_ALIAS.get(value);
+  if (!definition) return { raw, unit: null, kind: null, size: null };
+  return { raw, unit: definition.unit, kind: definition.kind, size: definition.size };
+};
+
+/**
+ * Pack sizes stated in a description, by container unit
+ */
+export const parsePackSizes = (description: string): Map<string, number> => {
+  const text = description.toUpperCase();
+  const sizes = new Map<string, number>();
+  const add = (alias: string, count: string) => {
+    const unit = UNITS_BY_ALIAS.get(alias)?.unit;
+    if (unit && !sizes.has(unit)) sizes.set(unit, parseInt(count, 10));
+  };
+  for (const [, count, alias] of Array.from(text.matchAll(PACK_SIZE_PATTERN))) add(alias, count);
+  for (const [, alias, count] of Array.from(text.matchAll(PACK_OF_PATTERN))) add(alias, count);
+  return sizes;
+};
+
+const isCountLike = (kind: UnitKind | null): boolean => kind === 'count' || kind === 'container';
+
+const formatFactor = (factor: number): string => String(Math.round(factor * 1000) / 1000);
+
+/**
+ * Compare our selling unit with the tender unit. Container sizes come from the unit
+ * itself (B50), else from either description ("48/CS", "BOX OF 20").
+ */
+export const compareUom = (
+  itemMasterUom: string,
+  itemMasterDescription: string,
+  genConsumableUom: string,
+  genConsumableDescription: string
+): UomComparison => {
+  const ours = normalizeUom(itemMasterUom);
+  const theirs = normalizeUom(genConsumableUom);
+  const result = (status: UomStatus, factor: number | null, note: string): UomComparison => ({
+    status,
+    itemMasterUnit: ours.unit ?? itemMasterUom.trim(),
+    genConsumableUnit: theirs.unit ?? genConsumableUom.trim(),
+    factor,
+    note,
+  });
+
+  if (!ours.unit || !theirs.unit) {
+    return result('unknown', null, `Unrecognized unit "${(ours.unit ? genConsumableUom : itemMasterUom).trim()}"`);
+  }
+  if (ours.kind !== theirs.kind && !(isCountLike(ours.kind) && isCountLike(theirs.kind))) {
+    return result('incompatible', null, `${theirs.unit} (${theirs.kind}) cannot be supplied in ${ours.unit} (${ours.kind})`);
+  }
+
+  // Each side's own description is the better source for the size of its container
+  const ownSizes = parsePackSizes(itemMasterDescription);
+  const tenderSizes = parsePackSizes(genConsumableDescription);
+  const sizeOf = (uom: NormalizedUom, first: Map<string, number>, second: Map<string, number>): number | null => {
+    if (uom.size !== null || uom.kind !== 'container') return uom.size;
+    return first.get(uom.unit as string) ?? second.get(uom.unit as string) ?? null;
+  };
+  const ourSize = sizeOf(ours, ownSizes, tenderSizes);
+  const theirSize = sizeOf(theirs, tenderSizes, ownSizes);
+  if (ours.unit === theirs.unit && ourSize === theirSize) {
+    return result('same', 1, `Both sold per ${ours.unit}`);
+  }
+  if (ourSize === null || theirSize === null) {
+    const missing = ourSize === null ? ours : theirs;
+    return result('unknown', null, missing.kind === 'container'
+      ? `Number of items per ${missing.unit} is not stated`
+      : `${theirs.unit} cannot be converted to ${ours.unit}`);
+  }
+
+  const factor = theirSize / ourSize;
+  return result('convertible', factor, `1 ${theirs.unit} = ${formatFactor(factor)} ${ours.unit}`);
+};
+
+/**
+ * Tender quantity expressed in our selling unit, rounded up to whole units
+ */
+export const convertQuantity = (quantity: string | number, comparison: UomComparison): number | null => {
+  const value = parseLocaleNumber(quantity);
+  if (value === null || comparison.factor === null) return null;
+  // Rounding first keeps float noise (e.g. 0.1 * 30) from adding a unit
+  return Math.ceil(Math.round(value * comparison.factor * 1e6) / 1e6);
+};